@@ -0,0 +1,19 @@
+import type { BuilderContext } from '@angular-devkit/architect';
+
+/**
+ * Members of the Architect builder context used by the builder, which the Nx
+ * executor implements.
+ */
+export type PlaywrightBuilderContext = Pick<
+  BuilderContext,
+  | 'workspaceRoot'
+  | 'target'
+  | 'logger'
+  | 'addTeardown'
+  | 'reportStatus'
+  | 'reportProgress'
+  | 'getProjectMetadata'
+  | 'getTargetOptions'
+  | 'getBuilderNameForTarget'
+  | 'scheduleTarget'
+>;
@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parseEnv } from 'node:util';
+
+/**
+ * Names of variables whose value is masked in logs.
+ */
+const secretPattern = /secret|password|passwd|token|key|auth|credential/i;
+
+/**
+ * Reads dotenv files, relative to `root`. Variables of a file override the
+ * ones of the previous files.
+ */
+export function readEnvFiles(
+  root: string,
+  envFile: string | string[] | null | undefined,
+): Record<string, string> {
+  const files = typeof envFile === 'string' ? [envFile] : (envFile ?? []);
+  return Object.assign(
+    {},
+    ...files.map((file) =>
+      parseEnv(readFileSync(resolve(root, file), 'utf-8')),
+    ),
+  );
+}
+
+/**
+ * Formats variables for logs, masking the values of secrets.
+ */
+export function formatEnv(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([name, value]) =>
+      secretPattern.test(name) ? `${name}=***` : `${name}=${value}`,
+    )
+    .join('\n');
+}
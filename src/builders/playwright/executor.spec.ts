@@ -0,0 +1,84 @@
+import { spawn } from 'node:child_process';
+import type { BuilderOutput } from '@angular-devkit/architect';
+import playwrightExecutor, { type ExecutorContext } from './executor';
+import type { PlaywrightBuilderOptions } from './index';
+import { loadNxDevkit } from './nx-devkit';
+
+jest.mock('node:child_process');
+jest.mock('./nx-devkit', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    fatal: jest.fn(),
+  };
+  return { loadNxDevkit: () => ({ logger }) };
+});
+
+const cli = require.resolve('@playwright/test/cli');
+
+describe('Playwright executor', () => {
+  const context: ExecutorContext = {
+    root: process.cwd(),
+    projectName: 'shop',
+    targetName: 'e2e',
+    projectsConfigurations: {
+      projects: { shop: { root: '', targets: {} } },
+    },
+  };
+
+  async function run(options: Partial<PlaywrightBuilderOptions>) {
+    const outputs: BuilderOutput[] = [];
+    for await (const output of playwrightExecutor(
+      options as PlaywrightBuilderOptions,
+      context,
+    )) {
+      outputs.push(output);
+    }
+    return outputs;
+  }
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run Playwright with the options', async () => {
+    (spawn as jest.Mock).mockReturnValue({
+      on: jest.fn((event, callback) => event === 'exit' && callback(0)),
+    });
+
+    const outputs = await run({ workers: 2 });
+
+    expect(outputs).toEqual([{ success: true }]);
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test', '--workers', '2'],
+      expect.objectContaining({ cwd: process.cwd() }),
+    );
+  });
+
+  it('should report a failed run', async () => {
+    (spawn as jest.Mock).mockReturnValue({
+      on: jest.fn((event, callback) => event === 'exit' && callback(1)),
+    });
+
+    const outputs = await run({});
+
+    expect(outputs).toEqual([
+      { success: false, error: 'Playwright crashed with exit code 1.' },
+    ]);
+  });
+
+  it('should log through the logger of Nx', async () => {
+    (spawn as jest.Mock).mockReturnValue({
+      on: jest.fn((event, callback) => event === 'exit' && callback(0)),
+    });
+
+    await run({ watch: true });
+
+    expect(loadNxDevkit(context.root).logger.warn).toHaveBeenCalledWith(
+      'The "watch" option requires a "devServerTarget". Running tests once.',
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import type {
+  BuilderOutput,
+  BuilderRun,
+  Target,
+} from '@angular-devkit/architect';
+import { type JsonObject, logging } from '@angular-devkit/core';
+import {
+  EMPTY,
+  firstValueFrom,
+  isObservable,
+  lastValueFrom,
+  type Observable,
+  ReplaySubject,
+} from 'rxjs';
+import type { PlaywrightBuilderContext } from './context';
+import { execute, type PlaywrightBuilderOptions } from './index';
+import { loadNxDevkit } from './nx-devkit';
+
+/**
+ * Target of an Nx project, as in its project.json.
+ */
+interface NxTarget {
+  executor?: string;
+  options?: JsonObject;
+  configurations?: Record<string, JsonObject>;
+}
+
+interface NxProject {
+  root: string;
+  targets?: Record<string, NxTarget>;
+}
+
+/**
+ * The `ExecutorContext` given by Nx, with the members the executor uses.
+ */
+export interface ExecutorContext {
+  root: string;
+  projectName?: string;
+  targetName?: string;
+  configurationName?: string;
+  isVerbose?: boolean;
+  projectsConfigurations?: { projects: Record<string, NxProject> };
+}
+
+/**
+ * Logs through the logger of Nx, like Nx executors do.
+ */
+function createLogger(context: ExecutorContext): logging.Logger {
+  const nxLogger = loadNxDevkit(context.root).logger;
+  const logger = new logging.Logger('playwright');
+  logger.subscribe(({ level, message }) => {
+    if (level !== 'debug' || context.isVerbose) {
+      nxLogger[level](message);
+    }
+  });
+  return logger;
+}
+
+/**
+ * Outputs of an Nx run as a builder run, the dev server builder output being
+ * the first one.
+ */
+function toBuilderRun(run: AsyncIterableIterator<BuilderOutput>): BuilderRun {
+  const outputs = new ReplaySubject<BuilderOutput>();
+  (async () => {
+    for await (const output of run) {
+      outputs.next(output);
+    }
+    outputs.complete();
+  })().catch((error) => outputs.error(error));
+
+  return {
+    id: 0,
+    info: { builderName: '', description: '', optionSchema: true },
+    result: firstValueFrom(outputs),
+    get lastOutput() {
+      return lastValueFrom(outputs);
+    },
+    output: outputs.asObservable(),
+    progress: EMPTY,
+    stop: async () => {
+      await run.return?.();
+    },
+  };
+}
+
+/**
+ * Context of the builder, backed by the Nx workspace.
+ */
+function toBuilderContext(
+  context: ExecutorContext,
+  teardowns: (() => unknown)[],
+): PlaywrightBuilderContext {
+  const projects = context.projectsConfigurations?.projects ?? {};
+  const getTarget = ({ project, target }: Target) => {
+    const nxTarget = projects[project]?.targets?.[target];
+    if (!nxTarget) {
+      throw new Error(`Project "${project}" has no "${target}" target.`);
+    }
+    return nxTarget;
+  };
+
+  return {
+    workspaceRoot: context.root,
+    target: context.projectName
+      ? {
+          project: context.projectName,
+          target: context.targetName ?? '',
+          ...(context.configurationName
+            ? { configuration: context.configurationName }
+            : {}),
+        }
+      : undefined,
+    logger: createLogger(context),
+    addTeardown: (teardown) => {
+      teardowns.push(teardown);
+    },
+    reportStatus: () => {},
+    reportProgress: () => {},
+    getProjectMetadata: async (project) => {
+      const name = typeof project === 'string' ? project : project.project;
+      return { ...projects[name] } as unknown as JsonObject;
+    },
+    getTargetOptions: async (target) => {
+      const { options, configurations } = getTarget(target);
+      const configurationOptions = (target.configuration ?? '')
+        .split(',')
+        .map((name) => configurations?.[name.trim()] ?? {});
+      return Object.assign({}, options, ...configurationOptions);
+    },
+    getBuilderNameForTarget: async (target) => getTarget(target).executor ?? '',
+    scheduleTarget: async (target, overrides = {}) => {
+      const { runExecutor } = loadNxDevkit(context.root);
+      return toBuilderRun(
+        await runExecutor(
+          {
+            project: target.project,
+            target: target.target,
+            configuration: target.configuration,
+          },
+          overrides,
+          context,
+        ),
+      );
+    },
+  };
+}
+
+/**
+ * Values of an observable, one at a time.
+ */
+async function* eachValueFrom<T>(observable: Observable<T>): AsyncGenerator<T> {
+  const values: T[] = [];
+  let state: { done: boolean; error?: unknown } | undefined;
+  let wake = () => {};
+  const subscription = observable.subscribe({
+    next: (value) => {
+      values.push(value);
+      wake();
+    },
+    error: (error) => {
+      state = { done: true, error };
+      wake();
+    },
+    complete: () => {
+      state = { done: true };
+      wake();
+    },
+  });
+
+  try {
+    while (true) {
+      const value = values.shift();
+      if (value !== undefined) {
+        yield value;
+      } else if (state?.error !== undefined) {
+        throw state.error;
+      } else if (state?.done) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    }
+  } finally {
+    subscription.unsubscribe();
+  }
+}
+
+/**
+ * Nx executor running the Playwright builder. Targets such as
+ * `devServerTarget` are run by Nx.
+ */
+export default async function* playwrightExecutor(
+  options: PlaywrightBuilderOptions,
+  context: ExecutorContext,
+): AsyncGenerator<BuilderOutput> {
+  const teardowns: (() => unknown)[] = [];
+  try {
+    const builderContext = toBuilderContext(context, teardowns);
+    const run = execute(options, builderContext);
+    if (isObservable(run)) {
+      yield* eachValueFrom(run);
+    } else {
+      yield await run;
+    }
+  } finally {
+    for (const teardown of teardowns) {
+      await teardown();
+    }
+  }
+}
@@ -1,4 +1,13 @@
-import { spawn } from 'node:child_process';
+import { spawn, spawnSync } from 'node:child_process';
+import {
+  mkdirSync,
+  mkdtempSync,
+  realpathSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   Architect,
   type BuilderOutput,
@@ -6,9 +15,13 @@ import {
   targetFromTargetString,
 } from '@angular-devkit/architect';
 import { TestingArchitectHost } from '@angular-devkit/architect/testing';
+import { logging } from '@angular-devkit/core';
+import { firstValueFrom, Observable } from 'rxjs';
 
 jest.mock('node:child_process');
 
+const cli = require.resolve('@playwright/test/cli');
+
 describe('Playwright builder', () => {
   let architect: Architect;
 
@@ -25,10 +38,51 @@ describe('Playwright builder', () => {
     };
     architectHost.addBuilder('fakeBuilder', createBuilder(fakeBuilder));
     architectHost.addTarget(targetFromTargetString('app:serve'), 'fakeBuilder');
+    architectHost.addTarget(
+      targetFromTargetString('app:build'),
+      'fakeBuilder',
+      { outputPath: mkdtempSync(join(tmpdir(), 'dist-')) },
+    );
+
+    // Builder that mocks a dev server failing to start
+    architectHost.addBuilder(
+      'failingBuilder',
+      createBuilder(() => ({ success: false })),
+    );
+    architectHost.addTarget(
+      targetFromTargetString('app:serve-broken'),
+      'failingBuilder',
+    );
+
+    // Builder that mocks a server which does not report its URL
+    architectHost.addBuilder(
+      'noUrlBuilder',
+      createBuilder(() => ({ success: true })),
+    );
+    architectHost.addTarget(
+      targetFromTargetString('api:serve'),
+      'noUrlBuilder',
+    );
+
+    // Builder that mocks `ng run app:serve` rebuilding twice
+    const fakeWatchBuilder = () =>
+      new Observable<BuilderOutput>((subscriber) => {
+        subscriber.next({ success: true, baseUrl: 'https://example.com:1' });
+        subscriber.next({ success: true, baseUrl: 'https://example.com:2' });
+      });
+    architectHost.addBuilder(
+      'fakeWatchBuilder',
+      createBuilder(fakeWatchBuilder),
+    );
+    architectHost.addTarget(
+      targetFromTargetString('app:serve-watch'),
+      'fakeWatchBuilder',
+    );
 
     (spawn as jest.Mock).mockReturnValue({
-      on: jest.fn((_event, callback) => callback(0)),
+      on: jest.fn((event, callback) => event === 'exit' && callback(0)),
     });
+    global.fetch = jest.fn().mockResolvedValue({ status: 200 });
   });
 
   afterEach(() => {
@@ -45,8 +99,8 @@ describe('Playwright builder', () => {
 
     expect(output.success).toBeTruthy();
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      [],
+      process.execPath,
+      [cli, 'test'],
       expect.anything(),
     );
   });
@@ -56,7 +110,7 @@ describe('Playwright builder', () => {
       'playwright-ng-schematics:playwright',
       {
         devServerTarget: 'app:serve',
-        port: 0,
+        port: 4242,
       },
     );
     await run.stop();
@@ -64,11 +118,11 @@ describe('Playwright builder', () => {
 
     expect(output.success).toBeTruthy();
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      [],
+      process.execPath,
+      [cli, 'test'],
       expect.objectContaining({
         env: expect.objectContaining({
-          PLAYWRIGHT_TEST_BASE_URL: 'https://example.com:0',
+          PLAYWRIGHT_TEST_BASE_URL: 'https://example.com:4242',
         }),
       }),
     );
@@ -76,7 +130,7 @@ describe('Playwright builder', () => {
 
   it('should fail on error', async () => {
     (spawn as jest.Mock).mockReturnValue({
-      on: jest.fn((_event, callback) => callback(-3)),
+      on: jest.fn((event, callback) => event === 'exit' && callback(-3)),
     });
 
     const run = await architect.scheduleBuilder(
@@ -87,6 +141,53 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(output.success).toBeFalsy();
+    expect(output.error).toBe('Playwright crashed with exit code -3.');
+  });
+
+  it('should report a run killed by a signal', async () => {
+    (spawn as jest.Mock).mockReturnValue({
+      on: jest.fn(
+        (event, callback) => event === 'exit' && callback(null, 'SIGINT'),
+      ),
+    });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {},
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toBe('Playwright was killed by SIGINT.');
+  });
+
+  it('should report a dev server failing to start', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { devServerTarget: 'app:serve-broken' },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toBe('Dev server "app:serve-broken" failed to start.');
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('should spawn Playwright in its own process group', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {},
+    );
+    await run.stop();
+    await run.result;
+
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({ detached: process.platform !== 'win32' }),
+    );
   });
 
   it('should accept --ui option', async () => {
@@ -98,9 +199,10 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      ['--ui'],
-      expect.anything(),
+      process.execPath,
+      [cli, 'test', '--ui'],
+      // UI mode stays in the foreground group to read the terminal
+      expect.objectContaining({ detached: false }),
     );
     expect(output.success).toBeTruthy();
   });
@@ -123,8 +225,19 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      ['--test1', 'testValue', '--test2', '2', '--test3', '-a', 'yes', '-b'],
+      process.execPath,
+      [
+        cli,
+        'test',
+        '--test1',
+        'testValue',
+        '--test2',
+        '2',
+        '--test3',
+        '-a',
+        'yes',
+        '-b',
+      ],
       expect.anything(),
     );
     expect(output.success).toBeTruthy();
@@ -142,13 +255,99 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      ['tests/todo-page/', 'tests/landing-page/', '--fail-on-flaky-tests'],
+      process.execPath,
+      [
+        cli,
+        'test',
+        'tests/todo-page/',
+        'tests/landing-page/',
+        '--fail-on-flaky-tests',
+      ],
       expect.anything(),
     );
     expect(output.success).toBeTruthy();
   });
 
+  it('should run the Playwright CLI of the workspace', async () => {
+    // resolved paths have no symlinks, like /var on macOS
+    const workspaceRoot = realpathSync(
+      mkdtempSync(join(tmpdir(), 'workspace-')),
+    );
+    const packageRoot = join(workspaceRoot, 'node_modules', '@playwright/test');
+    mkdirSync(packageRoot, { recursive: true });
+    writeFileSync(
+      join(packageRoot, 'package.json'),
+      '{ "name": "@playwright/test" }',
+    );
+    writeFileSync(join(packageRoot, 'cli.js'), '');
+
+    const architectHost = new TestingArchitectHost(workspaceRoot, tmpdir());
+    const workspaceArchitect = new Architect(architectHost);
+    await architectHost.addBuilderFromPackage('../../../..');
+
+    const run = await workspaceArchitect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {},
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [join(packageRoot, 'cli.js'), 'test'],
+      expect.anything(),
+    );
+  });
+
+  it('should resolve config and files relative to the project root', async () => {
+    const workspaceRoot = mkdtempSync(join(tmpdir(), 'workspace-'));
+    const projectRoot = join(workspaceRoot, 'projects', 'admin');
+    mkdirSync(join(projectRoot, 'e2e'), { recursive: true });
+    writeFileSync(join(projectRoot, 'playwright.config.ts'), '');
+    writeFileSync(join(projectRoot, 'e2e', 'app.spec.ts'), '');
+    // the Playwright CLI is resolved from the workspace root
+    symlinkSync(
+      join(process.cwd(), 'node_modules'),
+      join(workspaceRoot, 'node_modules'),
+    );
+
+    const architectHost = new TestingArchitectHost(
+      workspaceRoot,
+      workspaceRoot,
+      {
+        getProjectMetadata: async () => ({ root: 'projects/admin' }),
+      } as unknown as ConstructorParameters<typeof TestingArchitectHost>[2],
+    );
+    const projectArchitect = new Architect(architectHost);
+    await architectHost.addBuilderFromPackage('../../../..');
+    architectHost.addTarget(
+      targetFromTargetString('admin:e2e'),
+      'playwright-ng-schematics:playwright',
+      { files: ['e2e/app.spec.ts:3', 'login'] },
+    );
+
+    const run = await projectArchitect.scheduleTarget(
+      targetFromTargetString('admin:e2e'),
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [
+        cli,
+        'test',
+        'projects/admin/e2e/app.spec.ts:3',
+        'login',
+        '--config',
+        join(projectRoot, 'playwright.config.ts'),
+      ],
+      expect.anything(),
+    );
+  });
+
   it('should convert testProject to --project', async () => {
     const run = await architect.scheduleBuilder(
       'playwright-ng-schematics:playwright',
@@ -158,8 +357,8 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      ['--project', 'chromium'],
+      process.execPath,
+      [cli, 'test', '--project', 'chromium'],
       expect.anything(),
     );
     expect(output.success).toBeTruthy();
@@ -174,10 +373,539 @@ describe('Playwright builder', () => {
     const output = await run.result;
 
     expect(spawn).toHaveBeenCalledWith(
-      'npx playwright test',
-      ['--update-snapshots'],
+      process.execPath,
+      [cli, 'test', '--update-snapshots'],
+      expect.anything(),
+    );
+    expect(output.success).toBeTruthy();
+  });
+
+  it('should re-run tests on rebuild in watch mode', async () => {
+    // first run never exits, it must be killed on rebuild
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+    (spawn as jest.Mock)
+      .mockReturnValueOnce({ pid: 1234, on: jest.fn() })
+      .mockReturnValueOnce({
+        on: jest.fn((event, callback) => event === 'exit' && callback(0)),
+      });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { devServerTarget: 'app:serve-watch', watch: true },
+    );
+    const output = await firstValueFrom(run.output);
+    await run.stop();
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledTimes(2);
+    // the whole process group is killed
+    expect(kill).toHaveBeenCalledWith(-1234, 'SIGTERM');
+    const [, secondRun] = (spawn as jest.Mock).mock.calls;
+    expect(secondRun[2].env.PLAYWRIGHT_TEST_BASE_URL).toBe(
+      'https://example.com:2',
+    );
+    kill.mockRestore();
+  });
+
+  it('should end the builder on SIGINT in watch mode', async () => {
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+    (spawn as jest.Mock).mockReturnValue({ pid: 1234, on: jest.fn() });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { devServerTarget: 'app:serve-watch', watch: true },
+    );
+    while (!(spawn as jest.Mock).mock.calls.length) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    process.emit('SIGINT', 'SIGINT');
+
+    // the Playwright group is killed, then Node.js exits on the signal
+    expect(kill).toHaveBeenCalledWith(-1234, 'SIGINT');
+    expect(kill).toHaveBeenLastCalledWith(process.pid, 'SIGINT');
+    await run.stop();
+    kill.mockRestore();
+  });
+
+  it('should run against baseUrl once it is ready', async () => {
+    global.fetch = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce({ status: 503 })
+      .mockResolvedValue({ status: 302 });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { baseUrl: 'https://staging.example.com', readyInterval: 1 },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          PLAYWRIGHT_TEST_BASE_URL: 'https://staging.example.com',
+        }),
+      }),
+    );
+  });
+
+  it('should fail when the application is not ready in time', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ status: 503 });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {
+        baseUrl: 'https://staging.example.com',
+        readyTimeout: 20,
+        readyInterval: 5,
+      },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toContain('was not ready after 20ms');
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('should reject baseUrl together with devServerTarget', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { baseUrl: 'https://staging.example.com', devServerTarget: 'app:serve' },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('should report test results', async () => {
+    (spawn as jest.Mock).mockImplementation((_command, _args, { env }) => {
+      const events = [
+        { type: 'begin', total: 3 },
+        { type: 'testEnd', title: 'a', outcome: 'expected' },
+        { type: 'testEnd', title: 'b', outcome: 'unexpected' },
+        { type: 'testEnd', title: 'c', outcome: 'skipped' },
+        {
+          type: 'end',
+          status: 'failed',
+          results: {
+            passed: 1,
+            failed: 1,
+            flaky: 0,
+            skipped: 1,
+            failures: ['b'],
+          },
+        },
+      ];
+      writeFileSync(
+        env.PLAYWRIGHT_NG_RESULTS_FILE,
+        events.map((event) => `${JSON.stringify(event)}\n`).join(''),
+      );
+      return {
+        on: jest.fn((event, callback) => event === 'exit' && callback(1)),
+      };
+    });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {},
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output).toEqual(
+      expect.objectContaining({
+        success: false,
+        passed: 1,
+        failed: 1,
+        flaky: 0,
+        skipped: 1,
+        failures: ['b'],
+      }),
+    );
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          PW_TEST_REPORTER: expect.stringMatching(/reporter\.js$/),
+        }),
+      }),
+    );
+  });
+
+  it('should run shards in parallel and merge their reports', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { shards: 2, workers: 2 },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledTimes(3);
+    expect(spawn).toHaveBeenNthCalledWith(
+      1,
+      process.execPath,
+      [
+        cli,
+        'test',
+        '--workers',
+        '2',
+        '--shard',
+        '1/2',
+        '--reporter',
+        'blob',
+        '--output',
+        'test-results/shard-1',
+      ],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          PLAYWRIGHT_BLOB_OUTPUT_DIR: expect.stringMatching(/shard-1$/),
+        }),
+      }),
+    );
+    expect(spawn).toHaveBeenNthCalledWith(
+      2,
+      process.execPath,
+      expect.arrayContaining(['--shard', '2/2']),
+      expect.anything(),
+    );
+    expect(spawn).toHaveBeenNthCalledWith(
+      3,
+      process.execPath,
+      [cli, 'merge-reports', expect.stringContaining('playwright-ng-blob-')],
+      expect.anything(),
+    );
+  });
+
+  it('should fail when one shard fails', async () => {
+    (spawn as jest.Mock)
+      .mockReturnValueOnce({
+        on: jest.fn((event, callback) => event === 'exit' && callback(0)),
+      })
+      .mockReturnValueOnce({
+        on: jest.fn((event, callback) => event === 'exit' && callback(1)),
+      });
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { shards: 2 },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(spawn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should serve the output of buildTarget', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { buildTarget: 'app:build' },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          PLAYWRIGHT_TEST_BASE_URL: expect.stringMatching(
+            /^http:\/\/localhost:\d+$/,
+          ),
+        }),
+      }),
+    );
+  });
+
+  it('should reject buildTarget together with devServerTarget', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { buildTarget: 'app:build', devServerTarget: 'app:serve' },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toBe(
+      'The "devServerTarget" and "buildTarget" options cannot be used together.',
+    );
+  });
+
+  it.each([0, 'auto'])('should pick a free port with port %p', async (port) => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { devServerTarget: 'app:serve', port },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    const [[, , { env }]] = (spawn as jest.Mock).mock.calls;
+    const url = new URL(env.PLAYWRIGHT_TEST_BASE_URL);
+    expect(Number(url.port)).toBeGreaterThan(0);
+  });
+
+  it('should pass extraArgs and arguments after -- to Playwright', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {
+        headed: true,
+        extraArgs: ['--new-flag', 'value'],
+        '': ['--from-command-line'],
+      },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test', '--headed', '--new-flag', 'value', '--from-command-line'],
+      expect.anything(),
+    );
+    expect(output.success).toBeTruthy();
+  });
+
+  it('should repeat array options', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { project: ['chromium', 'firefox'], reporter: 'html,junit' },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [
+        cli,
+        'test',
+        '--project',
+        'chromium',
+        '--project',
+        'firefox',
+        '--reporter',
+        'html,junit',
+      ],
       expect.anything(),
     );
     expect(output.success).toBeTruthy();
   });
+
+  it('should set env variables from envFile and env', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'env-'));
+    writeFileSync(join(dir, '.env'), 'FROM_FILE=file\nOVERRIDDEN=file\n');
+    writeFileSync(join(dir, '.env.staging'), 'OVERRIDDEN=staging\n');
+    process.env.FROM_PROCESS = 'process';
+    const logs: string[] = [];
+    const logger = new logging.Logger('test');
+    logger.subscribe((entry) => logs.push(entry.message));
+
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {
+        envFile: [join(dir, '.env'), join(dir, '.env.staging')],
+        env: {
+          FROM_OPTION: 'option',
+          FROM_PROCESS: 'option',
+          API_TOKEN: 's3cr3t',
+        },
+      },
+      { logger },
+    );
+    await run.stop();
+    const output = await run.result;
+    delete process.env.FROM_PROCESS;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          FROM_FILE: 'file',
+          OVERRIDDEN: 'staging',
+          FROM_OPTION: 'option',
+          FROM_PROCESS: 'process',
+          API_TOKEN: 's3cr3t',
+        }),
+      }),
+    );
+    const log = logs.join('\n');
+    expect(log).toContain('FROM_OPTION=option');
+    expect(log).toContain('API_TOKEN=***');
+    expect(log).not.toContain('s3cr3t');
+  });
+
+  it('should start additional servers before running tests', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {
+        devServerTarget: 'app:serve',
+        port: 4200,
+        servers: [
+          { target: 'app:serve', port: 4300, env: 'REMOTE_CART_URL' },
+          {
+            command: 'node mock-api.js',
+            port: 4400,
+            readyUrl: 'http://localhost:4400/health',
+            env: 'API_URL',
+          },
+        ],
+      },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeTruthy();
+    expect(spawn).toHaveBeenCalledWith(
+      'node mock-api.js',
+      [],
+      expect.objectContaining({
+        env: expect.objectContaining({ PORT: '4400' }),
+      }),
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:4400/health',
+      expect.anything(),
+    );
+    expect(spawn).toHaveBeenLastCalledWith(
+      process.execPath,
+      [cli, 'test'],
+      expect.objectContaining({
+        env: expect.objectContaining({
+          PLAYWRIGHT_TEST_BASE_URL: 'https://example.com:4200',
+          REMOTE_CART_URL: 'https://example.com:4300',
+          API_URL: 'http://localhost:4400',
+        }),
+      }),
+    );
+  });
+
+  it('should not run tests when a server fails to start', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      {
+        servers: [
+          { command: 'node mock-api.js', port: 4400 },
+          { target: 'app:serve-broken' },
+        ],
+      },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toBe('Server "app:serve-broken" failed to start.');
+    expect(spawn).not.toHaveBeenCalledWith(
+      process.execPath,
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('should need the url of a target server which does not report it', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { servers: [{ target: 'api:serve', port: 3000 }] },
+    );
+    await run.stop();
+    const output = await run.result;
+
+    expect(output.success).toBeFalsy();
+    expect(output.error).toBe(
+      'Server "api:serve" does not report its URL, set the "url" of the server.',
+    );
+  });
+
+  it('should refuse a command server without port or url', async () => {
+    const run = await architect.scheduleBuilder(
+      'playwright-ng-schematics:playwright',
+      { servers: [{ command: 'node mock-api.js' }] },
+    );
+
+    await expect(run.result).rejects.toThrow(
+      `Data path "/servers/0" must have required property 'url'.`,
+    );
+    await run.stop();
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  describe('browsers', () => {
+    let config: string;
+
+    beforeEach(() => {
+      config = join(
+        mkdtempSync(join(tmpdir(), 'config-')),
+        'playwright.config.ts',
+      );
+      writeFileSync(
+        config,
+        `export default defineConfig({
+  projects: [
+    { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+    { name: 'firefox', use: { ...devices['Desktop Firefox'] } },
+  ],
+});
+`,
+      );
+      (spawnSync as jest.Mock).mockReturnValue({
+        status: 0,
+        stdout: `Firefox 155.0 (playwright firefox v1543)
+  Install location:    ${join(tmpdir(), 'missing', 'firefox-1543')}
+  Download url:        https://cdn.playwright.dev/firefox.zip
+`,
+      });
+    });
+
+    it('should fail before running tests when browsers are missing', async () => {
+      const run = await architect.scheduleBuilder(
+        'playwright-ng-schematics:playwright',
+        { config, project: 'fire*' },
+      );
+      await run.stop();
+      const output = await run.result;
+
+      expect(spawnSync).toHaveBeenCalledWith(
+        process.execPath,
+        [cli, 'install', '--dry-run', 'firefox'],
+        expect.anything(),
+      );
+      expect(output.success).toBeFalsy();
+      expect(output.error).toBe(
+        'Browsers missing for the selected projects: firefox. Run "npx playwright install firefox", or set "installBrowsers": true in the e2e target.',
+      );
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
+    it('should install missing browsers with installBrowsers', async () => {
+      const run = await architect.scheduleBuilder(
+        'playwright-ng-schematics:playwright',
+        { config, installBrowsers: true },
+      );
+      await run.stop();
+      const output = await run.result;
+
+      expect(output.success).toBeTruthy();
+      expect(spawnSync).toHaveBeenLastCalledWith(
+        process.execPath,
+        [cli, 'install', 'chromium', 'firefox'],
+        expect.objectContaining({ stdio: 'inherit' }),
+      );
+      expect(spawn).toHaveBeenCalledWith(
+        process.execPath,
+        [cli, 'test', '--config', config],
+        expect.anything(),
+      );
+    });
+  });
 });
@@ -1,157 +1,940 @@
-import { spawn } from 'node:child_process';
+import { spawnSync } from 'node:child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative, resolve, sep } from 'node:path';
 import {
-  type BuilderContext,
   type BuilderOutput,
   type BuilderRun,
   createBuilder,
   targetFromTargetString,
 } from '@angular-devkit/architect';
-import { type JsonObject, strings } from '@angular-devkit/core';
+import { type JsonObject, type JsonValue, strings } from '@angular-devkit/core';
+import { from, Observable, of, switchMap } from 'rxjs';
+import * as ts from 'typescript';
+import {
+  brandedChannels,
+  getConfigBrowsers,
+  loadDeviceBrowsers,
+  parseDryRun,
+} from '../../utils/browsers';
+import {
+  getPackageManagerExecCommand,
+  getPlaywrightCommand,
+} from '../../utils/package-manager';
+import type { PlaywrightBuilderContext } from './context';
+import { formatEnv, readEnvFiles } from './env';
+import { killProcessTree, spawnProcessTree } from './process-tree';
+import {
+  createResultsFile,
+  followResults,
+  formatResults,
+  type ResultsEvent,
+  type TestResults,
+} from './results';
+import {
+  getFreePort,
+  isAutoPort,
+  type RunningServers,
+  type ServerOptions,
+  startServers,
+} from './servers';
+import {
+  readProxyConfig,
+  type StaticServer,
+  startStaticServer,
+} from './static-server';
+import { type WaitForUrlOptions, waitForUrl } from './wait-for-url';
+
+/**
+ * Builder options that are not forwarded to Playwright.
+ */
+const builderOptions = [
+  'devServerTarget',
+  'port',
+  'watch',
+  'baseUrl',
+  'readyTimeout',
+  'readyInterval',
+  'shards',
+  'buildTarget',
+  'proxyConfig',
+  'env',
+  'envFile',
+  'servers',
+  'installBrowsers',
+];
+
+/**
+ * Default config files, in the order Playwright looks for them.
+ */
+const defaultConfigFiles = [
+  'playwright.config.ts',
+  'playwright.config.js',
+  'playwright.config.mts',
+  'playwright.config.mjs',
+  'playwright.config.cts',
+  'playwright.config.cjs',
+];
+
+/**
+ * Keys holding the arguments after `--` on the command line. The Angular CLI
+ * camelCases option names, which turns `--` into an empty string.
+ */
+const passthroughKeys = ['--', ''];
+
+function toArgument(key: string, value: JsonValue): string[] {
+  // options automatically got converted to camelCase, so we have to convert them back to kebab-case for Playwright.
+  const dashes = key.length === 1 ? '-' : '--';
+  const argument = `${dashes}${strings.dasherize(key)}`;
+
+  if (typeof value === 'boolean') {
+    if (value) {
+      return [argument];
+    }
+    return [];
+  }
+  return [argument, String(value)];
+}
 
 /**
  * Converts the options object back to an argv string array.
  *
  * @example
  * buildArgs({"workers": 2}); // returns ["--workers", 2]
+ * buildArgs({"project": ["a", "b"]}); // returns ["--project", "a", "--project", "b"]
  */
-function buildArgs(options: JsonObject): string[] {
-  // extract files
-  const filesArgs = (options.files as string[]) ?? [];
-  options.files = null;
-
+function buildArgs({
+  files,
+  testProject,
+  extraArgs,
+  ...options
+}: JsonObject): string[] {
   // project alias
-  if (options.testProject) {
-    options.project = options.testProject;
-    options.testProject = null;
+  if (testProject) {
+    options.project = testProject;
   }
 
+  const passthroughArgs = passthroughKeys.flatMap(
+    (key) => (options[key] as string[] | undefined) ?? [],
+  );
+
   return [
-    ...filesArgs,
+    ...((files as string[]) ?? []),
     ...Object.entries(options).flatMap(([key, value]) => {
       // Skip builder-internal options
-      if (key === 'devServerTarget') {
-        return [];
-      }
-      if (key === 'port') {
+      if (builderOptions.includes(key) || passthroughKeys.includes(key)) {
         return [];
       }
 
-      // Skip objects, arrays, null, undefined (should already be validated by Angular though)
-      if (
-        typeof value === 'object' ||
-        Array.isArray(value) ||
-        value === null ||
-        value === undefined
-      ) {
-        return [];
+      // Repeat the argument for each array item
+      if (Array.isArray(value)) {
+        // nested objects and arrays, and null, are skipped
+        return value.flatMap((item) =>
+          typeof item === 'object' ? [] : toArgument(key, item),
+        );
       }
 
-      // options automatically got converted to camelCase, so we have to convert them back to kebab-case for Playwright.
-      const dashes = key.length === 1 ? '-' : '--';
-      const argument = `${dashes}${strings.dasherize(key)}`;
-
-      if (typeof value === 'boolean') {
-        if (value) {
-          return argument;
-        }
+      // Skip objects, null, undefined (should already be validated by Angular though)
+      if (typeof value === 'object' || value === null || value === undefined) {
         return [];
       }
-      return [argument, String(value)];
+
+      return toArgument(key, value);
     }),
+    ...((extraArgs as string[]) ?? []),
+    ...passthroughArgs,
   ];
 }
 
 async function startDevServer(
-  context: BuilderContext,
+  context: PlaywrightBuilderContext,
   devServerTarget: string,
-  port: number | null,
+  port: number | 'auto' | null,
 ): Promise<BuilderRun> {
   const target = targetFromTargetString(devServerTarget);
   const defaultServerOptions = await context.getTargetOptions(target);
 
-  const overrides = { port: port ?? defaultServerOptions.port };
+  let serverPort = port ?? defaultServerOptions.port;
+  if (isAutoPort(port)) {
+    serverPort = await getFreePort();
+    context.logger.info(`Using free port ${serverPort} for the dev server.`);
+  }
+  const overrides = { port: serverPort };
   const server = await context.scheduleTarget(target, overrides);
 
   return server;
 }
 
-export function getPackageManagerExecCommand() {
-  const env = process.env.npm_config_user_agent || '';
-  if (env.includes('yarn')) {
-    return 'yarn';
-  }
-  if (env.includes('pnpm')) {
-    return 'pnpm exec';
+/**
+ * Folder holding the browser files of a build target.
+ */
+async function getBrowserOutputPath(
+  context: PlaywrightBuilderContext,
+  buildTarget: string,
+): Promise<string> {
+  const target = targetFromTargetString(buildTarget);
+  const buildOptions = await context.getTargetOptions(target);
+  const builderName = await context.getBuilderNameForTarget(target);
+  const outputPath = buildOptions.outputPath as
+    | string
+    | { base: string; browser?: string };
+
+  // The legacy browser builder outputs browser files directly in outputPath
+  const isApplicationBuilder = builderName.endsWith(':application');
+  if (typeof outputPath === 'string') {
+    return resolve(
+      context.workspaceRoot,
+      outputPath,
+      isApplicationBuilder ? 'browser' : '',
+    );
   }
-  return 'npx';
+  return resolve(
+    context.workspaceRoot,
+    outputPath.base,
+    outputPath.browser ?? 'browser',
+  );
 }
 
-async function startPlaywrightTest(options: JsonObject, baseURL: string) {
-  // PLAYWRIGHT_TEST_BASE_URL is actually a non-documented env variable used
-  // by Playwright Test.
-  // Its usage in playwright.config.ts is to clarify that it can be overriden.
-  let env = process.env;
-  if (baseURL) {
-    env = {
-      PLAYWRIGHT_TEST_BASE_URL: baseURL,
-      ...process.env,
-    };
+/**
+ * Builds the application, then serves its output.
+ */
+async function startBuildServer(
+  context: PlaywrightBuilderContext,
+  options: PlaywrightBuilderOptions,
+  buildTarget: string,
+): Promise<StaticServer> {
+  context.reportStatus('Building');
+  const build = await context.scheduleTarget(
+    targetFromTargetString(buildTarget),
+  );
+  const result = await build.result;
+  await build.stop();
+  if (!result.success) {
+    throw new Error(`Build of "${buildTarget}" failed.`);
   }
 
+  const root = await getBrowserOutputPath(context, buildTarget);
+  const proxyConfig = options.proxyConfig
+    ? readProxyConfig(resolve(context.workspaceRoot, options.proxyConfig))
+    : undefined;
+  const server = await startStaticServer(root, {
+    port: options.port === 'auto' ? 0 : (options.port ?? 0),
+    proxyConfig,
+  });
+  context.logger.info(`Serving ${root} on ${server.url}`);
+
+  return server;
+}
+
+interface PlaywrightRun {
+  exitCode: number | null;
+  /** Signal that killed Playwright */
+  signal: NodeJS.Signals | null;
+  results?: TestResults;
+}
+
+/**
+ * Environment of Playwright. From the lowest to the highest precedence:
+ * server URLs (PLAYWRIGHT_TEST_BASE_URL and the ones of servers), envFile (in
+ * order), env, and the environment of the builder process.
+ */
+function playwrightEnv(
+  options: JsonObject,
+  urls: Record<string, string>,
+  context: PlaywrightBuilderContext,
+): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {
+    ...urls,
+    ...readEnvFiles(
+      context.workspaceRoot,
+      options.envFile as string | string[] | null,
+    ),
+    ...(options.env as Record<string, string> | null),
+  };
+  context.logger.debug(`Playwright environment:\n${formatEnv(env)}`);
+
+  return {
+    ...env,
+    ...process.env,
+  };
+}
+
+/**
+ * Environment variables holding the URLs of the application and servers.
+ */
+function serverUrls(
+  baseURL: string,
+  servers: RunningServers | undefined,
+): Record<string, string> {
+  return {
+    // PLAYWRIGHT_TEST_BASE_URL is actually a non-documented env variable used
+    // by Playwright Test.
+    // Its usage in playwright.config.ts is to clarify that it can be overriden.
+    ...(baseURL ? { PLAYWRIGHT_TEST_BASE_URL: baseURL } : {}),
+    ...servers?.env,
+  };
+}
+
+/**
+ * Reports the progress of one or several concurrent Playwright runs.
+ */
+function trackProgress(context: PlaywrightBuilderContext) {
+  let done = 0;
+  let total = 0;
+  return (event: ResultsEvent) => {
+    if (event.type === 'begin') {
+      total += event.total;
+      context.reportProgress(done, total);
+    } else if (event.type === 'testEnd') {
+      done++;
+      context.reportProgress(done, total, event.title);
+    }
+  };
+}
+
+/**
+ * Spawns a Playwright CLI command, such as `test` or `merge-reports`.
+ */
+function startPlaywright(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv,
+  context: PlaywrightBuilderContext,
+  onEvent: (event: ResultsEvent) => void,
+  signal?: AbortSignal,
+): Promise<PlaywrightRun> {
+  // The builder reporter is added next to the user's reporters, it writes
+  // the test results to a temporary file.
+  const resultsFile = createResultsFile();
+  const stopFollowing = followResults(resultsFile, onEvent);
+
+  const playwright = getPlaywrightCommand(context.workspaceRoot);
   return new Promise((resolve, reject) => {
-    const childProcess = spawn(
-      `${getPackageManagerExecCommand()} playwright test`,
-      buildArgs(options),
+    const childProcess = spawnProcessTree(
+      playwright.command,
+      [...playwright.args, command, ...args],
       {
         cwd: process.cwd(),
         stdio: 'inherit',
-        shell: true,
-        env,
+        // UI mode and the inspector read the terminal
+        detached: !args.some((arg) => arg === '--ui' || arg === '--debug'),
+        shell: playwright.shell,
+        env: {
+          ...env,
+          PW_TEST_REPORTER: require.resolve('./reporter'),
+          PLAYWRIGHT_NG_RESULTS_FILE: resultsFile,
+        },
       },
     );
 
-    childProcess.on('exit', (exitCode) => {
-      if (exitCode !== 0) {
-        reject(exitCode);
-      }
-      resolve(true);
+    const abort = () => killProcessTree(childProcess);
+    signal?.addEventListener('abort', abort, { once: true });
+    if (signal?.aborted) {
+      abort();
+    }
+
+    childProcess.on('error', (error) => {
+      signal?.removeEventListener('abort', abort);
+      stopFollowing();
+      reject(error);
+    });
+    childProcess.on('exit', (exitCode, exitSignal) => {
+      signal?.removeEventListener('abort', abort);
+      resolve({
+        exitCode,
+        signal: exitSignal ?? null,
+        results: stopFollowing(),
+      });
     });
   });
 }
 
-interface PlaywrightBuilderOptions extends JsonObject {
+/**
+ * Root folder of the project the builder runs for, the workspace root when
+ * the builder is not run from a target.
+ */
+async function getProjectRoot(
+  context: PlaywrightBuilderContext,
+): Promise<string> {
+  if (!context.target) {
+    return context.workspaceRoot;
+  }
+  const metadata = await context.getProjectMetadata(context.target.project);
+  return resolve(context.workspaceRoot, (metadata?.root as string) ?? '');
+}
+
+/**
+ * Resolves `config` and `files` relative to the project root, so each
+ * project can own its Playwright setup. Paths that do not exist in the
+ * project are kept relative to the workspace root.
+ */
+async function resolveProjectPaths(
+  options: JsonObject,
+  context: PlaywrightBuilderContext,
+): Promise<JsonObject> {
+  const projectRoot = await getProjectRoot(context);
+  if (projectRoot === resolve(context.workspaceRoot)) {
+    return options;
+  }
+
+  const config =
+    (options.config as string | null) ??
+    defaultConfigFiles.find((file) => existsSync(join(projectRoot, file)));
+  const files = (options.files as string[] | null)?.map((file) => {
+    // file filters can end with a line and column, e.g. `e2e/app.spec.ts:10`
+    const [, path, location] = /^(.*?)((?::\d+){0,2})$/.exec(file) ?? [];
+    if (!existsSync(resolve(projectRoot, path))) {
+      return file;
+    }
+    // Playwright matches the filters against the absolute file paths
+    const projectPath = relative(
+      context.workspaceRoot,
+      resolve(projectRoot, path),
+    );
+    return `${projectPath.split(sep).join('/')}${location}`;
+  });
+
+  return {
+    ...options,
+    ...(config && existsSync(resolve(projectRoot, config))
+      ? { config: resolve(projectRoot, config) }
+      : {}),
+    ...(files ? { files } : {}),
+  };
+}
+
+async function startPlaywrightTest(
+  playwrightOptions: JsonObject,
+  urls: Record<string, string>,
+  context: PlaywrightBuilderContext,
+  signal?: AbortSignal,
+): Promise<PlaywrightRun> {
+  context.reportStatus('Running tests');
+  const options = await resolveProjectPaths(playwrightOptions, context);
+  const env = playwrightEnv(options, urls, context);
+  const shards = (options.shards as number | null) ?? 1;
+  if (shards > 1) {
+    return startShardedPlaywrightTest(options, env, context, shards, signal);
+  }
+
+  return startPlaywright(
+    'test',
+    buildArgs(options),
+    env,
+    context,
+    trackProgress(context),
+    signal,
+  );
+}
+
+/**
+ * Runs `shards` Playwright processes at once with the blob reporter, then
+ * merges their blob reports with the reporters of the configuration.
+ */
+async function startShardedPlaywrightTest(
+  options: JsonObject,
+  env: NodeJS.ProcessEnv,
+  context: PlaywrightBuilderContext,
+  shards: number,
+  signal?: AbortSignal,
+): Promise<PlaywrightRun> {
+  const blobDir = mkdtempSync(join(tmpdir(), 'playwright-ng-blob-'));
+  const outputDir = (options.output as string | null) ?? 'test-results';
+  const onEvent = trackProgress(context);
+
+  try {
+    const runs = await Promise.all(
+      Array.from({ length: shards }, (_, index) => {
+        const shard = index + 1;
+        const shardBlobDir = join(blobDir, `shard-${shard}`);
+        return startPlaywright(
+          'test',
+          buildArgs({
+            ...options,
+            shard: `${shard}/${shards}`,
+            reporter: 'blob',
+            // each shard cleans its output directory when starting
+            output: join(outputDir, `shard-${shard}`),
+          }),
+          {
+            ...env,
+            // each shard also cleans its blob report directory
+            PLAYWRIGHT_BLOB_OUTPUT_DIR: shardBlobDir,
+          },
+          context,
+          onEvent,
+          signal,
+        );
+      }),
+    );
+
+    // merge-reports expects all the reports in one directory
+    for (let shard = 1; shard <= shards; shard++) {
+      const shardBlobDir = join(blobDir, `shard-${shard}`);
+      for (const file of existsSync(shardBlobDir)
+        ? readdirSync(shardBlobDir)
+        : []) {
+        renameSync(join(shardBlobDir, file), join(blobDir, file));
+      }
+      rmSync(shardBlobDir, { recursive: true, force: true });
+    }
+
+    context.reportStatus('Merging reports');
+    const merged = await startPlaywright(
+      'merge-reports',
+      [blobDir, ...buildMergeArgs(options)],
+      env,
+      context,
+      () => {},
+      signal,
+    );
+
+    const failedRun = runs.find((run) => run.exitCode !== 0);
+    return {
+      exitCode: failedRun ? failedRun.exitCode : merged.exitCode,
+      signal: failedRun ? failedRun.signal : merged.signal,
+      results: merged.results,
+    };
+  } finally {
+    rmSync(blobDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Merged reports use the reporters of the configuration, unless the
+ * `reporter` option is set.
+ */
+function buildMergeArgs(options: JsonObject): string[] {
+  const args: string[] = [];
+  const config =
+    (options.config as string | null) ??
+    defaultConfigFiles.find((file) => existsSync(file));
+  if (config) {
+    args.push('--config', config);
+  }
+  if (options.reporter) {
+    args.push('--reporter', String(options.reporter));
+  }
+  return args;
+}
+
+/**
+ * Explains why a Playwright run failed, if it did.
+ */
+function getFailureReason({
+  exitCode,
+  signal,
+  results,
+}: PlaywrightRun): string | undefined {
+  if (signal) {
+    return `Playwright was killed by ${signal}.`;
+  }
+  if (exitCode === 0) {
+    return undefined;
+  }
+  if (!results) {
+    // The builder reporter did not get to the end of the run
+    return `Playwright crashed with exit code ${exitCode}.`;
+  }
+  if (results.failed > 0) {
+    return `${results.failed} test(s) failed.`;
+  }
+  return `Tests failed with exit code ${exitCode}.`;
+}
+
+/**
+ * Converts a Playwright run to the builder output, and logs its summary.
+ */
+function toBuilderOutput(
+  run: PlaywrightRun,
+  context: PlaywrightBuilderContext,
+): BuilderOutput {
+  const { results } = run;
+  if (results) {
+    context.logger.info(formatResults(results));
+    for (const failure of results.failures) {
+      context.logger.info(`  ✘ ${failure}`);
+    }
+  }
+
+  const error = getFailureReason(run);
+  if (error) {
+    return { success: false, error, ...results };
+  }
+  return { success: true, ...results };
+}
+
+export interface PlaywrightBuilderOptions extends JsonObject {
   devServerTarget: string | null;
-  port: number | null;
+  port: number | 'auto' | null;
   files: string[] | null;
+  watch: boolean | null;
+  baseUrl: string | null;
+  readyTimeout: number | null;
+  readyInterval: number | null;
+  shards: number | null;
+  buildTarget: string | null;
+  proxyConfig: string | null;
+  env: Record<string, string> | null;
+  envFile: string | string[] | null;
+  servers: ServerOptions[] | null;
+  installBrowsers: boolean | null;
+}
+
+function getReadiness(options: PlaywrightBuilderOptions): WaitForUrlOptions {
+  return {
+    timeout: options.readyTimeout ?? 60_000,
+    interval: options.readyInterval ?? 500,
+  };
+}
+
+async function waitForApp(
+  options: PlaywrightBuilderOptions,
+  context: PlaywrightBuilderContext,
+  baseURL: string,
+) {
+  context.reportStatus('Waiting for the application');
+  context.logger.info(`Waiting for ${baseURL} to be ready...`);
+  await waitForUrl(baseURL, getReadiness(options));
+}
+
+/**
+ * Starts the additional servers. They are stopped by the returned promise
+ * consumer, also when something else fails.
+ */
+function startAdditionalServers(
+  options: PlaywrightBuilderOptions,
+  context: PlaywrightBuilderContext,
+): Promise<RunningServers> {
+  const servers = startServers(
+    context,
+    options.servers ?? [],
+    getReadiness(options),
+  );
+  // The failure is handled when the promise is awaited
+  servers.catch(() => {});
+  return servers;
+}
+
+/**
+ * The Angular CLI logs the `error` of the builder output.
+ */
+function toErrorOutput(
+  error: unknown,
+  context: PlaywrightBuilderContext,
+): BuilderOutput {
+  if (error instanceof Error) {
+    context.logger.debug(error.stack ?? error.message);
+    return { success: false, error: error.message };
+  }
+  return { success: false, error: String(error) };
+}
+
+/**
+ * Checks that the browsers of the selected Playwright projects are installed
+ * before starting anything, and installs them with `installBrowsers`. The
+ * check is skipped when the config cannot be read.
+ */
+async function ensureBrowsers(
+  playwrightOptions: PlaywrightBuilderOptions,
+  context: PlaywrightBuilderContext,
+): Promise<void> {
+  if (playwrightOptions.list) {
+    return;
+  }
+  const options = await resolveProjectPaths(playwrightOptions, context);
+  const config =
+    (options.config as string | null) ??
+    defaultConfigFiles.find((file) => existsSync(file));
+  if (!config || !existsSync(config)) {
+    return;
+  }
+
+  const sourceFile = ts.createSourceFile(
+    config,
+    readFileSync(config, 'utf-8'),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  const filters = [options.testProject ?? options.project ?? []].flat();
+  const browsers = getConfigBrowsers(
+    sourceFile,
+    loadDeviceBrowsers(context.workspaceRoot),
+    filters.map(String),
+    !(options.noDeps ?? options['no-deps']),
+  );
+  if (!browsers?.length) {
+    return;
+  }
+
+  // The browsers folder can be changed by PLAYWRIGHT_BROWSERS_PATH
+  const env = playwrightEnv(options, {}, context);
+  const playwright = getPlaywrightCommand(context.workspaceRoot);
+  const dryRun = spawnSync(
+    playwright.command,
+    [...playwright.args, 'install', '--dry-run', ...browsers],
+    {
+      cwd: process.cwd(),
+      shell: playwright.shell,
+      encoding: 'utf-8',
+      env,
+    },
+  );
+  if (dryRun.error || dryRun.status !== 0) {
+    context.logger.debug(
+      `Could not list the browsers to install:\n${dryRun.stderr ?? dryRun.error}`,
+    );
+    return;
+  }
+  const missing = parseDryRun(dryRun.stdout).filter(
+    ({ location }) => location !== '<system>' && !existsSync(location),
+  );
+  if (!missing.length) {
+    return;
+  }
+
+  // Branded browsers are installed system-wide, they are not checked
+  const toInstall = browsers.filter(
+    (browser) => !brandedChannels.includes(browser),
+  );
+  const names = missing.map(({ name }) => name).join(', ');
+  if (!playwrightOptions.installBrowsers) {
+    throw new Error(
+      `Browsers missing for the selected projects: ${names}. Run "${getPackageManagerExecCommand(process.cwd())} playwright install ${toInstall.join(' ')}", or set "installBrowsers": true in the e2e target.`,
+    );
+  }
+
+  context.reportStatus('Installing browsers');
+  context.logger.info(`Installing ${toInstall.join(', ')}...`);
+  const install = spawnSync(
+    playwright.command,
+    [...playwright.args, 'install', ...toInstall],
+    {
+      cwd: process.cwd(),
+      stdio: 'inherit',
+      shell: playwright.shell,
+      env,
+    },
+  );
+  if (install.error || install.status !== 0) {
+    throw new Error(
+      `Installing the browsers failed with exit code ${install.status}.`,
+    );
+  }
 }
 
 async function runE2E(
   options: PlaywrightBuilderOptions,
-  context: BuilderContext,
+  context: PlaywrightBuilderContext,
 ): Promise<BuilderOutput> {
   let server: BuilderRun | undefined;
-  let baseURL = '';
+  let staticServer: StaticServer | undefined;
+  let baseURL = options.baseUrl ?? '';
+
+  // Kills Playwright when the builder is stopped
+  const controller = new AbortController();
+  context.addTeardown(() => controller.abort());
+
+  // Starts in parallel with the application
+  const servers = startAdditionalServers(options, context);
 
   try {
+    await ensureBrowsers(options, context);
+
     if (options.devServerTarget) {
+      context.reportStatus('Starting dev server');
       server = await startDevServer(
         context,
         options.devServerTarget,
         options.port,
       );
       const result = await server.result;
+      if (!result.success) {
+        throw new Error(
+          `Dev server "${options.devServerTarget}" failed to start.`,
+        );
+      }
       baseURL = result.baseUrl;
+      context.logger.info(`Dev server listening on ${baseURL}`);
+    } else if (options.buildTarget) {
+      staticServer = await startBuildServer(
+        context,
+        options,
+        options.buildTarget,
+      );
+      baseURL = staticServer.url;
     }
 
-    await startPlaywrightTest(options, baseURL);
-    return { success: true };
-  } catch (_error) {
-    return { success: false };
+    if (baseURL) {
+      await waitForApp(options, context, baseURL);
+    }
+
+    const run = await startPlaywrightTest(
+      options,
+      serverUrls(baseURL, await servers),
+      context,
+      controller.signal,
+    );
+    return toBuilderOutput(run, context);
+  } catch (error) {
+    return toErrorOutput(error, context);
   } finally {
     if (server) {
       server.stop();
     }
+    await staticServer?.close();
+    await servers.then(
+      (runningServers) => runningServers.stop(),
+      () => {},
+    );
+  }
+}
+
+/**
+ * Keeps the dev server running and re-runs Playwright after each successful
+ * rebuild. A run still in flight when a new build comes in is cancelled.
+ */
+function watchE2E(
+  options: PlaywrightBuilderOptions,
+  context: PlaywrightBuilderContext,
+  devServerTarget: string,
+): Observable<BuilderOutput> {
+  return new Observable<BuilderOutput>((subscriber) => {
+    let server: BuilderRun | undefined;
+    let controller: AbortController | undefined;
+    let stopped = false;
+
+    // The Angular CLI only logs the error of the last output
+    const emit = (output: BuilderOutput) => {
+      if (output.error) {
+        context.logger.error(output.error);
+      }
+      subscriber.next(output);
+    };
+
+    context.reportStatus('Starting dev server');
+    const servers = startAdditionalServers(options, context);
+    Promise.all([
+      servers,
+      startDevServer(context, devServerTarget, options.port),
+    ]).then(
+      ([runningServers, run]) => {
+        server = run;
+        if (stopped) {
+          server.stop();
+          return;
+        }
+        subscriber.add(
+          server.output.subscribe({
+            next: (buildOutput) => {
+              controller?.abort();
+              if (!buildOutput.success) {
+                emit(
+                  toErrorOutput(
+                    `Dev server "${devServerTarget}" failed to build.`,
+                    context,
+                  ),
+                );
+                return;
+              }
+
+              const current = new AbortController();
+              controller = current;
+              const baseURL = buildOutput.baseUrl as string;
+              waitForApp(options, context, baseURL)
+                .then(() => {
+                  if (current.signal.aborted) {
+                    return;
+                  }
+                  return startPlaywrightTest(
+                    options,
+                    serverUrls(baseURL, runningServers),
+                    context,
+                    current.signal,
+                  );
+                })
+                .then(
+                  (run) => {
+                    if (run && !current.signal.aborted) {
+                      emit(toBuilderOutput(run, context));
+                    }
+                  },
+                  (error) => {
+                    if (!current.signal.aborted) {
+                      emit(toErrorOutput(error, context));
+                    }
+                  },
+                );
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => subscriber.complete(),
+          }),
+        );
+      },
+      (error) => subscriber.error(error),
+    );
+
+    return () => {
+      stopped = true;
+      controller?.abort();
+      server?.stop();
+      servers.then(
+        (runningServers) => runningServers.stop(),
+        () => {},
+      );
+    };
+  });
+}
+
+/**
+ * Runs the builder, also used by the Nx executor.
+ */
+export function execute(
+  options: PlaywrightBuilderOptions,
+  context: PlaywrightBuilderContext,
+): Promise<BuilderOutput> | Observable<BuilderOutput> {
+  const servers = ['baseUrl', 'devServerTarget', 'buildTarget'].filter(
+    (option) => options[option],
+  );
+  if (servers.length > 1) {
+    return Promise.resolve({
+      success: false,
+      error: `The ${servers.map((option) => `"${option}"`).join(' and ')} options cannot be used together.`,
+    });
+  }
+  if (options.shards && options.shard) {
+    return Promise.resolve({
+      success: false,
+      error: 'The "shards" and "shard" options cannot be used together.',
+    });
+  }
+
+  if (options.watch) {
+    const { devServerTarget } = options;
+    if (devServerTarget) {
+      const checked = ensureBrowsers(options, context).then(
+        () => undefined,
+        (error) => toErrorOutput(error, context),
+      );
+      return from(checked).pipe(
+        switchMap((failure) =>
+          failure ? of(failure) : watchE2E(options, context, devServerTarget),
+        ),
+      );
+    }
+    context.logger.warn(
+      'The "watch" option requires a "devServerTarget". Running tests once.',
+    );
   }
+
+  return runE2E(options, context);
 }
 
-export default createBuilder(runE2E);
+export default createBuilder(execute);
@@ -0,0 +1,26 @@
+import type { BuilderOutput } from '@angular-devkit/architect';
+import type { JsonObject } from '@angular-devkit/core';
+import type { ExecutorContext } from './executor';
+
+/**
+ * Members of `@nx/devkit` used by the executor.
+ */
+export interface NxDevkit {
+  /** Runs a target like `nx run` does */
+  runExecutor(
+    target: { project: string; target: string; configuration?: string },
+    overrides: JsonObject,
+    context: ExecutorContext,
+  ): Promise<AsyncIterableIterator<BuilderOutput>>;
+  logger: Record<
+    'debug' | 'info' | 'warn' | 'error' | 'fatal',
+    (message: string) => void
+  >;
+}
+
+/**
+ * `@nx/devkit` of the Nx workspace, which is not a dependency of the builder.
+ */
+export function loadNxDevkit(root: string): NxDevkit {
+  return require(require.resolve('@nx/devkit', { paths: [root] }));
+}
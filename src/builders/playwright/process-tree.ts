@@ -0,0 +1,94 @@
+import {
+  type ChildProcess,
+  type SpawnOptions,
+  spawn,
+  spawnSync,
+} from 'node:child_process';
+
+const forwardedSignals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+const children = new Set<ChildProcess>();
+/** Children spawned in their own process group */
+const groups = new WeakSet<ChildProcess>();
+
+function removeListeners() {
+  for (const signal of forwardedSignals) {
+    process.off(signal, forwardSignal);
+  }
+}
+
+/**
+ * Kills the children, then raises the signal again so that Node.js exits
+ * like it would without the listener, stopping the dev server and the other
+ * servers of the builder.
+ */
+function forwardSignal(signal: NodeJS.Signals) {
+  for (const child of children) {
+    killProcessTree(child, signal);
+  }
+  removeListeners();
+  process.kill(process.pid, signal);
+}
+
+function untrack(child: ChildProcess) {
+  children.delete(child);
+  if (children.size === 0) {
+    removeListeners();
+  }
+}
+
+/**
+ * Spawns a process in its own process group, so that it can be killed along
+ * with all its descendants (shell, package manager, Playwright, browsers).
+ * SIGINT and SIGTERM received by the builder are forwarded to the group.
+ * Interactive processes, which read the terminal, are given `detached: false`
+ * so that they stay in the foreground group and are not stopped by SIGTTIN.
+ */
+export function spawnProcessTree(
+  command: string,
+  args: string[],
+  options: SpawnOptions,
+): ChildProcess {
+  // On Windows, the tree is killed with taskkill instead
+  const detached = (options.detached ?? true) && process.platform !== 'win32';
+  const child = spawn(command, args, { ...options, detached });
+  if (detached) {
+    groups.add(child);
+  }
+
+  if (children.size === 0) {
+    for (const signal of forwardedSignals) {
+      process.on(signal, forwardSignal);
+    }
+  }
+  children.add(child);
+  child.on('exit', () => untrack(child));
+  child.on('error', () => untrack(child));
+
+  return child;
+}
+
+/**
+ * Kills a process spawned by `spawnProcessTree` and all its descendants.
+ */
+export function killProcessTree(
+  child: ChildProcess,
+  signal: NodeJS.Signals = 'SIGTERM',
+) {
+  if (child.pid === undefined || !children.has(child)) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawnSync('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    return;
+  }
+  if (!groups.has(child)) {
+    child.kill(signal);
+    return;
+  }
+  try {
+    process.kill(-child.pid, signal);
+  } catch (_error) {
+    // the group is already gone
+  }
+}
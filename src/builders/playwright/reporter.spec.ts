@@ -0,0 +1,89 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import BuilderReporter from './reporter';
+
+function testCase(
+  title: string,
+  outcome: 'expected' | 'unexpected' | 'flaky' | 'skipped',
+) {
+  return {
+    retries: 1,
+    expectedStatus: 'passed',
+    titlePath: () => ['', 'chromium', 'example.spec.ts', title],
+    outcome: () => outcome,
+  };
+}
+
+describe('Builder reporter', () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = join(mkdtempSync(join(tmpdir(), 'reporter-')), 'results.jsonl');
+    process.env.PLAYWRIGHT_NG_RESULTS_FILE = file;
+  });
+
+  afterEach(() => {
+    delete process.env.PLAYWRIGHT_NG_RESULTS_FILE;
+  });
+
+  it('should write progress and results events', () => {
+    const passing = testCase('passes', 'expected');
+    const failing = testCase('fails', 'unexpected');
+    const flaky = testCase('flaky', 'flaky');
+    const skipped = testCase('skipped', 'skipped');
+    const reporter = new BuilderReporter();
+
+    reporter.onBegin(
+      {},
+      { allTests: () => [passing, failing, flaky, skipped] },
+    );
+    reporter.onTestEnd(passing, { retry: 0, status: 'passed' });
+    // first attempt of a retried test is not final
+    reporter.onTestEnd(flaky, { retry: 0, status: 'failed' });
+    reporter.onTestEnd(flaky, { retry: 1, status: 'passed' });
+    reporter.onTestEnd(failing, { retry: 0, status: 'failed' });
+    reporter.onTestEnd(failing, { retry: 1, status: 'failed' });
+    reporter.onTestEnd(skipped, { retry: 0, status: 'skipped' });
+    reporter.onEnd({ status: 'failed' });
+
+    const events = readFileSync(file, 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(events).toEqual([
+      { type: 'begin', total: 4 },
+      {
+        type: 'testEnd',
+        title: 'chromium › example.spec.ts › passes',
+        outcome: 'expected',
+      },
+      {
+        type: 'testEnd',
+        title: 'chromium › example.spec.ts › flaky',
+        outcome: 'flaky',
+      },
+      {
+        type: 'testEnd',
+        title: 'chromium › example.spec.ts › fails',
+        outcome: 'unexpected',
+      },
+      {
+        type: 'testEnd',
+        title: 'chromium › example.spec.ts › skipped',
+        outcome: 'skipped',
+      },
+      {
+        type: 'end',
+        status: 'failed',
+        results: {
+          passed: 1,
+          failed: 1,
+          flaky: 1,
+          skipped: 1,
+          failures: ['chromium › example.spec.ts › fails'],
+        },
+      },
+    ]);
+  });
+});
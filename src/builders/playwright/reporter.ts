@@ -0,0 +1,90 @@
+import { appendFileSync } from 'node:fs';
+import type { ResultsEvent, TestResults } from './results';
+
+// Minimal subset of the Playwright Reporter API, @playwright/test is not a
+// dependency of this package.
+interface TestCase {
+  retries: number;
+  expectedStatus: string;
+  titlePath(): string[];
+  outcome(): 'expected' | 'unexpected' | 'flaky' | 'skipped';
+}
+interface TestResult {
+  retry: number;
+  status: string;
+}
+interface Suite {
+  allTests(): TestCase[];
+}
+
+function title(test: TestCase): string {
+  // titlePath() starts with the root suite's empty title
+  return test.titlePath().filter(Boolean).join(' › ');
+}
+
+/**
+ * Playwright reporter added by the builder through `PW_TEST_REPORTER`, so it
+ * runs next to the reporters of the user.
+ * Writes one JSON event per line to the `PLAYWRIGHT_NG_RESULTS_FILE` file.
+ */
+export default class BuilderReporter {
+  private readonly file = process.env.PLAYWRIGHT_NG_RESULTS_FILE;
+  private suite: Suite | undefined;
+
+  onBegin(_config: unknown, suite: Suite) {
+    this.suite = suite;
+    this.write({ type: 'begin', total: suite.allTests().length });
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    const final =
+      result.status === 'skipped' ||
+      result.status === test.expectedStatus ||
+      result.retry >= test.retries;
+    if (final) {
+      this.write({
+        type: 'testEnd',
+        title: title(test),
+        outcome: test.outcome(),
+      });
+    }
+  }
+
+  onEnd(result: { status: string }) {
+    const results: TestResults = {
+      passed: 0,
+      failed: 0,
+      flaky: 0,
+      skipped: 0,
+      failures: [],
+    };
+    for (const test of this.suite?.allTests() ?? []) {
+      switch (test.outcome()) {
+        case 'expected':
+          results.passed++;
+          break;
+        case 'unexpected':
+          results.failed++;
+          results.failures.push(title(test));
+          break;
+        case 'flaky':
+          results.flaky++;
+          break;
+        case 'skipped':
+          results.skipped++;
+          break;
+      }
+    }
+    this.write({ type: 'end', status: result.status, results });
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  private write(event: ResultsEvent) {
+    if (this.file) {
+      appendFileSync(this.file, `${JSON.stringify(event)}\n`);
+    }
+  }
+}
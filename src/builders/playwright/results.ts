@@ -0,0 +1,74 @@
+import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+export interface TestResults {
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Titles of the failing tests */
+  failures: string[];
+}
+
+export type ResultsEvent =
+  | { type: 'begin'; total: number }
+  | { type: 'testEnd'; title: string; outcome: string }
+  | { type: 'end'; status: string; results: TestResults };
+
+let fileCount = 0;
+
+export function createResultsFile(): string {
+  fileCount++;
+  return join(tmpdir(), `playwright-ng-${process.pid}-${fileCount}.jsonl`);
+}
+
+/**
+ * Follows the events written by the builder reporter to `file`.
+ *
+ * @returns a function that stops following, handles the remaining events,
+ * deletes the file and returns the final results if the run completed.
+ */
+export function followResults(
+  file: string,
+  onEvent: (event: ResultsEvent) => void,
+): () => TestResults | undefined {
+  let offset = 0;
+  let results: TestResults | undefined;
+
+  const read = () => {
+    if (!existsSync(file)) {
+      return;
+    }
+    const content = readFileSync(file, 'utf-8');
+    const end = content.lastIndexOf('\n') + 1;
+    const lines = content.slice(offset, end).split('\n').filter(Boolean);
+    offset = end;
+    for (const line of lines) {
+      const event = JSON.parse(line) as ResultsEvent;
+      if (event.type === 'end') {
+        results = event.results;
+      }
+      onEvent(event);
+    }
+  };
+
+  const interval = setInterval(read, 250);
+  interval.unref();
+
+  return () => {
+    clearInterval(interval);
+    read();
+    rmSync(file, { force: true });
+    return results;
+  };
+}
+
+export function formatResults(results: TestResults): string {
+  return [
+    `${results.passed} passed`,
+    `${results.failed} failed`,
+    `${results.flaky} flaky`,
+    `${results.skipped} skipped`,
+  ].join(', ');
+}
@@ -0,0 +1,89 @@
+import { execFileSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+interface PlaywrightOption {
+  name: string;
+  alias?: string;
+  choices?: string[];
+}
+
+/**
+ * Parses the options listed by `playwright test --help` of the installed
+ * Playwright version.
+ */
+function getPlaywrightOptions(): PlaywrightOption[] {
+  const help = execFileSync(
+    process.execPath,
+    [require.resolve('@playwright/test/cli'), 'test', '--help'],
+    { encoding: 'utf-8' },
+  );
+  const optionsHelp = help.slice(
+    help.indexOf('Options:'),
+    help.indexOf('Arguments'),
+  );
+
+  // each option starts with a dash, its description may span several lines
+  return optionsHelp
+    .split(/\n(?= {2}-)/)
+    .slice(1)
+    .map((text) => {
+      const [, alias, name] =
+        text.match(/^ {2}(?:-(\w), )?(?:--([\w-]+)|-(\w))/) ?? [];
+      const choices = text
+        .replace(/\s+/g, ' ')
+        .match(/\(choices: ([^)]*?)(?:, preset: [^)]*)?\)/)?.[1]
+        .split(', ')
+        .map((choice) => JSON.parse(choice));
+      return { name: name ?? text.trim().slice(1, 2), alias, choices };
+    })
+    .filter(({ name }) => name !== 'help');
+}
+
+type SchemaProperty = {
+  enum?: string[];
+  oneOf?: { enum?: string[] }[];
+  alias?: string;
+};
+const properties: Record<string, SchemaProperty> = JSON.parse(
+  readFileSync(join(__dirname, 'schema.json'), 'utf-8'),
+).properties;
+
+describe('Playwright builder schema', () => {
+  const playwrightOptions = getPlaywrightOptions();
+
+  it('should list the options of the installed Playwright', () => {
+    expect(playwrightOptions.length).toBeGreaterThan(0);
+
+    const missing = playwrightOptions
+      .map(({ name }) => name)
+      .filter((name) => !properties[name]);
+    expect(missing).toEqual([]);
+  });
+
+  it('should list the choices of the installed Playwright', () => {
+    for (const { name, choices } of playwrightOptions) {
+      const property = properties[name];
+      const schemaChoices =
+        property?.enum ?? property?.oneOf?.find((type) => type.enum)?.enum;
+      if (choices && schemaChoices) {
+        expect({ name, choices: [...schemaChoices].sort() }).toEqual({
+          name,
+          choices: [...choices].sort(),
+        });
+      }
+    }
+  });
+
+  it('should use the aliases of the installed Playwright', () => {
+    for (const { name, alias } of playwrightOptions) {
+      // -c is the Angular configuration
+      if (alias && name !== 'config') {
+        expect({ name, alias: properties[name]?.alias }).toEqual({
+          name,
+          alias,
+        });
+      }
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import type { ChildProcess } from 'node:child_process';
+import { type AddressInfo, createServer } from 'node:net';
+import {
+  type BuilderRun,
+  targetFromTargetString,
+} from '@angular-devkit/architect';
+import type { JsonObject } from '@angular-devkit/core';
+import type { PlaywrightBuilderContext } from './context';
+import { killProcessTree, spawnProcessTree } from './process-tree';
+import { type WaitForUrlOptions, waitForUrl } from './wait-for-url';
+
+/**
+ * Additional server started next to the application, such as a
+ * micro-frontend remote or a mock API.
+ */
+export interface ServerOptions extends JsonObject {
+  /** Architect target, such as `remote-cart:serve` */
+  target: string | null;
+  /** Shell command, run from the workspace root with a `PORT` variable */
+  command: string | null;
+  port: number | 'auto' | null;
+  /** URL of the server, defaults to the one of the target or to localhost */
+  url: string | null;
+  /** URL to poll until the server is ready, defaults to `url` */
+  readyUrl: string | null;
+  /** Name of the environment variable set to the URL for the tests */
+  env: string | null;
+}
+
+export interface RunningServers {
+  /** URLs of the servers, by environment variable name */
+  env: Record<string, string>;
+  stop(): Promise<void>;
+}
+
+interface RunningServer {
+  url: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Finds a free local port by letting the OS pick one.
+ */
+export function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+export function isAutoPort(port: number | 'auto' | null | undefined) {
+  return port === 0 || port === 'auto';
+}
+
+function describe(server: ServerOptions): string {
+  return server.target ?? `"${server.command}"`;
+}
+
+async function startTargetServer(
+  context: PlaywrightBuilderContext,
+  server: ServerOptions,
+  target: string,
+  port: number | undefined,
+): Promise<RunningServer> {
+  const run: BuilderRun = await context.scheduleTarget(
+    targetFromTargetString(target),
+    port === undefined ? {} : { port },
+  );
+  const result = await run.result;
+  if (!result.success) {
+    await run.stop();
+    throw new Error(`Server "${target}" failed to start.`);
+  }
+
+  const url = server.url ?? result.baseUrl;
+  if (typeof url !== 'string') {
+    await run.stop();
+    throw new Error(
+      `Server "${target}" does not report its URL, set the "url" of the server.`,
+    );
+  }
+
+  return { url, stop: () => run.stop() };
+}
+
+function startCommandServer(
+  context: PlaywrightBuilderContext,
+  server: ServerOptions,
+  command: string,
+  port: number | undefined,
+): RunningServer {
+  const url = server.url ?? (port ? `http://localhost:${port}` : undefined);
+  if (!url) {
+    throw new Error(`Server "${command}" needs a "port" or an "url".`);
+  }
+
+  const child: ChildProcess = spawnProcessTree(command, [], {
+    cwd: context.workspaceRoot,
+    stdio: 'inherit',
+    shell: true,
+    env: port ? { ...process.env, PORT: String(port) } : process.env,
+  });
+  const exited = new Promise<void>((resolve) => child.on('exit', resolve));
+
+  return {
+    url,
+    stop: async () => {
+      killProcessTree(child);
+      await exited;
+    },
+  };
+}
+
+async function startServer(
+  context: PlaywrightBuilderContext,
+  server: ServerOptions,
+  readiness: WaitForUrlOptions,
+  started: RunningServer[],
+): Promise<RunningServer> {
+  if (!server.target === !server.command) {
+    throw new Error(
+      'Each server needs either a "target" or a "command", not both.',
+    );
+  }
+
+  const port = isAutoPort(server.port)
+    ? await getFreePort()
+    : (server.port ?? undefined);
+  const runningServer = server.target
+    ? await startTargetServer(context, server, server.target, port)
+    : startCommandServer(context, server, server.command as string, port);
+  started.push(runningServer);
+
+  const readyUrl = server.readyUrl ?? runningServer.url;
+  context.logger.info(`Waiting for ${describe(server)} on ${readyUrl}...`);
+  await waitForUrl(readyUrl, readiness);
+
+  return runningServer;
+}
+
+/**
+ * Starts the servers in parallel, and resolves once they are all ready.
+ * If one of them fails, the others are stopped.
+ */
+export async function startServers(
+  context: PlaywrightBuilderContext,
+  servers: ServerOptions[],
+  readiness: WaitForUrlOptions,
+): Promise<RunningServers> {
+  const started: RunningServer[] = [];
+  const stop = async () => {
+    await Promise.allSettled(started.map((server) => server.stop()));
+  };
+
+  const results = await Promise.allSettled(
+    servers.map((server) => startServer(context, server, readiness, started)),
+  );
+  const failure = results.find((result) => result.status === 'rejected');
+  if (failure) {
+    await stop();
+    throw failure.reason;
+  }
+
+  const env: Record<string, string> = {};
+  servers.forEach((server, index) => {
+    if (server.env) {
+      env[server.env] = (
+        results[index] as PromiseFulfilledResult<RunningServer>
+      ).value.url;
+    }
+  });
+  return { env, stop };
+}
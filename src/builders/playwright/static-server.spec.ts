@@ -0,0 +1,103 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  readProxyConfig,
+  type StaticServer,
+  startStaticServer,
+} from './static-server';
+
+describe('Static server', () => {
+  let root: string;
+  let server: StaticServer;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'static-'));
+    writeFileSync(join(root, 'index.html'), '<app-root></app-root>');
+    writeFileSync(join(root, 'main.js'), 'bootstrap();');
+    mkdirSync(join(root, 'assets'));
+    writeFileSync(join(root, 'assets', 'logo.svg'), '<svg></svg>');
+  });
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it('should serve files', async () => {
+    server = await startStaticServer(root, { port: 0 });
+
+    const response = await fetch(`${server.url}/main.js`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/javascript');
+    expect(await response.text()).toBe('bootstrap();');
+  });
+
+  it('should fall back to index.html for application routes', async () => {
+    server = await startStaticServer(root, { port: 0 });
+
+    const response = await fetch(`${server.url}/todos/42`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('<app-root></app-root>');
+  });
+
+  it('should not fall back for missing files', async () => {
+    server = await startStaticServer(root, { port: 0 });
+
+    const response = await fetch(`${server.url}/assets/missing.png`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject malformed paths', async () => {
+    server = await startStaticServer(root, { port: 0 });
+
+    const response = await fetch(`${server.url}/%E0%A4%A`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should proxy requests', async () => {
+    const api: Server = createServer((req, res) => res.end(req.url));
+    await new Promise<void>((resolve) => api.listen(0, resolve));
+    const { port } = api.address() as AddressInfo;
+    server = await startStaticServer(root, {
+      port: 0,
+      proxyConfig: {
+        '/api': {
+          target: `http://localhost:${port}`,
+          pathRewrite: { '^/api': '' },
+        },
+      },
+    });
+
+    const response = await fetch(`${server.url}/api/users?page=2`);
+
+    expect(await response.text()).toBe('/users?page=2');
+    api.close();
+  });
+
+  it('should only proxy the paths under a context', async () => {
+    writeFileSync(join(root, 'apiary.html'), 'bees');
+    server = await startStaticServer(root, {
+      port: 0,
+      proxyConfig: { '/api': { target: 'http://localhost:1' } },
+    });
+
+    const response = await fetch(`${server.url}/apiary.html`);
+
+    expect(await response.text()).toBe('bees');
+  });
+
+  it('should refuse JavaScript proxy configurations', () => {
+    const file = join(root, 'proxy.conf.mjs');
+    writeFileSync(file, 'export default {};');
+
+    expect(() => readProxyConfig(file)).toThrow(
+      `Proxy configuration ${file} is not supported, the static server only reads JSON files.`,
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import { createReadStream, existsSync, readFileSync, statSync } from 'node:fs';
+import {
+  createServer,
+  request as httpRequest,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { extname, join, resolve, sep } from 'node:path';
+
+const contentTypes: Record<string, string> = {
+  '.css': 'text/css; charset=utf-8',
+  '.gif': 'image/gif',
+  '.html': 'text/html; charset=utf-8',
+  '.ico': 'image/x-icon',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain; charset=utf-8',
+  '.wasm': 'application/wasm',
+  '.webmanifest': 'application/manifest+json',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Entry of an Angular CLI proxy configuration (`proxy.conf.json`).
+ */
+export interface ProxyEntry {
+  target: string;
+  pathRewrite?: Record<string, string>;
+  changeOrigin?: boolean;
+  secure?: boolean;
+}
+
+export type ProxyConfig = Record<string, ProxyEntry>;
+
+export interface StaticServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Reads a JSON proxy configuration. JavaScript ones, which `ng serve` also
+ * accepts, are not supported.
+ */
+export function readProxyConfig(path: string): ProxyConfig {
+  if (extname(path) !== '.json') {
+    throw new Error(
+      `Proxy configuration ${path} is not supported, the static server only reads JSON files.`,
+    );
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+function findProxy(
+  proxyConfig: ProxyConfig,
+  pathname: string,
+): ProxyEntry | undefined {
+  const context = Object.keys(proxyConfig).find((key) => {
+    // `/api/**` and `/api` both match `/api/users`, but not `/apiary`
+    const prefix = key.replace(/\/?\*+$/, '').replace(/\/$/, '');
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  });
+  return context ? proxyConfig[context] : undefined;
+}
+
+function forward(req: IncomingMessage, res: ServerResponse, proxy: ProxyEntry) {
+  const target = new URL(proxy.target);
+  let path = req.url ?? '/';
+  for (const [pattern, replacement] of Object.entries(
+    proxy.pathRewrite ?? {},
+  )) {
+    path = path.replace(new RegExp(pattern), replacement);
+  }
+
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const proxyReq = request(
+    {
+      protocol: target.protocol,
+      hostname: target.hostname,
+      port: target.port,
+      method: req.method,
+      path: `${target.pathname.replace(/\/$/, '')}${path}`,
+      headers: {
+        ...req.headers,
+        ...(proxy.changeOrigin ? { host: target.host } : {}),
+      },
+      rejectUnauthorized: proxy.secure !== false,
+    },
+    (proxyRes) => {
+      res.writeHead(proxyRes.statusCode ?? 502, proxyRes.headers);
+      proxyRes.pipe(res);
+    },
+  );
+  proxyReq.on('error', () => {
+    res.writeHead(502);
+    res.end();
+  });
+  req.pipe(proxyReq);
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+/**
+ * Decoded path of a request, `undefined` when it is not valid percent-encoding,
+ * such as `/%E0%A4%A`.
+ */
+function decodePath(pathname: string): string | undefined {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the file to serve, falling back to the index for application
+ * routes (paths without extension) so that the Angular router handles them.
+ */
+function resolveFile(root: string, pathname: string): string | undefined {
+  const path = resolve(root, `.${pathname}`);
+  if (path !== root && !path.startsWith(`${root}${sep}`)) {
+    return undefined;
+  }
+
+  const candidates = [path, join(path, 'index.html')];
+  if (!extname(path)) {
+    // index.csr.html is the client-side index of server-rendered apps
+    candidates.push(join(root, 'index.html'), join(root, 'index.csr.html'));
+  }
+  return candidates.find(isFile);
+}
+
+/**
+ * Serves the `root` folder over HTTP on localhost, with a fallback to
+ * `index.html` for single-page applications.
+ * A `port` of 0 picks a free port.
+ */
+export function startStaticServer(
+  root: string,
+  { port, proxyConfig }: { port: number; proxyConfig?: ProxyConfig },
+): Promise<StaticServer> {
+  const rootPath = resolve(root);
+
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    const proxy = proxyConfig && findProxy(proxyConfig, pathname);
+    if (proxy) {
+      forward(req, res, proxy);
+      return;
+    }
+
+    const decodedPath = decodePath(pathname);
+    if (decodedPath === undefined) {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+    const file = resolveFile(rootPath, decodedPath);
+    if (!file) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': contentTypes[extname(file)] ?? 'application/octet-stream',
+    });
+    createReadStream(file).pipe(res);
+  });
+
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(port, 'localhost', () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolvePromise({
+        url: `http://localhost:${actualPort}`,
+        close: () =>
+          new Promise((closed) => {
+            server.closeAllConnections();
+            server.close(() => closed());
+          }),
+      });
+    });
+  });
+}
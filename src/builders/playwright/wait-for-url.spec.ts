@@ -0,0 +1,44 @@
+import { waitForUrl } from './wait-for-url';
+
+function fetchError(code: string): TypeError {
+  return Object.assign(new TypeError('fetch failed'), {
+    cause: Object.assign(new Error(code), { code }),
+  });
+}
+
+describe('waitForUrl', () => {
+  const options = { timeout: 50, interval: 10 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should wait until the server answers', async () => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockRejectedValueOnce(fetchError('ECONNREFUSED'))
+      .mockResolvedValue(new Response(null, { status: 200 }));
+
+    await waitForUrl('http://localhost:4200', options);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept a server with a self-signed certificate', async () => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockRejectedValue(fetchError('DEPTH_ZERO_SELF_SIGNED_CERT'));
+
+    await waitForUrl('https://localhost:4200', options);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail when the server does not answer in time', async () => {
+    jest.spyOn(global, 'fetch').mockRejectedValue(fetchError('ECONNREFUSED'));
+
+    await expect(waitForUrl('http://localhost:4200', options)).rejects.toThrow(
+      'http://localhost:4200 was not ready after 50ms (last response: fetch failed)',
+    );
+  });
+});
@@ -0,0 +1,60 @@
+export interface WaitForUrlOptions {
+  /** Total time to wait for the URL, in milliseconds. */
+  timeout: number;
+  /** Delay between two attempts, in milliseconds. */
+  interval: number;
+}
+
+function isReady(status: number): boolean {
+  return status >= 200 && status < 400;
+}
+
+/**
+ * Whether fetch failed on the certificate of the server, such as the
+ * self-signed one of `ng serve --ssl`. The server answered, so it is up.
+ */
+function isCertificateError(error: unknown): boolean {
+  const code = (error as { cause?: NodeJS.ErrnoException })?.cause?.code;
+  return !!code && /CERT|SELF_SIGNED|UNABLE_TO_VERIFY/.test(code);
+}
+
+/**
+ * Polls `url` until it answers with a 2xx or 3xx status, or with a
+ * certificate Node.js does not trust.
+ * Rejects when `timeout` is reached. A `timeout` of 0 skips the check.
+ */
+export async function waitForUrl(
+  url: string,
+  { timeout, interval }: WaitForUrlOptions,
+): Promise<void> {
+  if (!timeout) {
+    return;
+  }
+
+  const deadline = Date.now() + timeout;
+  let lastError = '';
+  while (true) {
+    try {
+      const response = await fetch(url, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(Math.max(deadline - Date.now(), 1)),
+      });
+      if (isReady(response.status)) {
+        return;
+      }
+      lastError = `status ${response.status}`;
+    } catch (error) {
+      if (isCertificateError(error)) {
+        return;
+      }
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (Date.now() + interval > deadline) {
+      throw new Error(
+        `${url} was not ready after ${timeout}ms (last response: ${lastError})`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
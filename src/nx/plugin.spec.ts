@@ -0,0 +1,79 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createNodesV2 } from './plugin';
+
+describe('Nx plugin', () => {
+  const [configGlob, createNodes] = createNodesV2;
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = mkdtempSync(join(tmpdir(), 'nx-'));
+    mkdirSync(join(workspaceRoot, 'apps', 'shop'), { recursive: true });
+    writeFileSync(
+      join(workspaceRoot, 'apps', 'shop', 'project.json'),
+      JSON.stringify({ targets: { serve: {} } }),
+    );
+    mkdirSync(join(workspaceRoot, 'tools'));
+  });
+
+  it('should match the Playwright configs', () => {
+    expect(configGlob).toBe('**/playwright.config.{ts,js,mts,mjs,cts,cjs}');
+  });
+
+  it('should infer a cached target for projects with a config', async () => {
+    const results = await createNodes(
+      ['apps/shop/playwright.config.ts', 'tools/playwright.config.ts'],
+      { targetName: 'playwright' },
+      {
+        workspaceRoot,
+        nxJsonConfiguration: { namedInputs: { production: ['default'] } },
+      },
+    );
+
+    expect(results).toEqual([
+      [
+        'apps/shop/playwright.config.ts',
+        {
+          projects: {
+            'apps/shop': {
+              targets: {
+                playwright: {
+                  executor: 'playwright-ng-schematics:playwright',
+                  options: {
+                    config: 'playwright.config.ts',
+                    devServerTarget: '{projectName}:serve',
+                  },
+                  cache: true,
+                  inputs: [
+                    'default',
+                    '^production',
+                    { externalDependencies: ['@playwright/test'] },
+                  ],
+                  outputs: [
+                    '{projectRoot}/test-results',
+                    '{projectRoot}/playwright-report',
+                  ],
+                },
+              },
+            },
+          },
+        },
+      ],
+    ]);
+  });
+
+  it('should depend on all the files of dependencies without production inputs', async () => {
+    const [[, result]] = await createNodes(
+      ['apps/shop/playwright.config.ts'],
+      undefined,
+      { workspaceRoot },
+    );
+
+    expect(result.projects?.['apps/shop'].targets.e2e.inputs).toEqual([
+      'default',
+      '^default',
+      { externalDependencies: ['@playwright/test'] },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { JsonObject } from '@angular-devkit/core';
+import { getDependenciesInput } from '../utils/nx-inputs';
+
+/**
+ * Options of the plugin in the `plugins` of nx.json.
+ */
+export interface PlaywrightPluginOptions {
+  /** Name of the inferred target, `e2e` by default */
+  targetName?: string;
+  /** Target of the project serving the application, `serve` by default */
+  serveTargetName?: string;
+}
+
+/**
+ * The `CreateNodesContextV2` given by Nx, with the members the plugin uses.
+ */
+interface CreateNodesContext {
+  workspaceRoot: string;
+  nxJsonConfiguration?: { namedInputs?: Record<string, unknown> };
+}
+
+type CreateNodesResult = {
+  projects?: Record<string, { targets: Record<string, JsonObject> }>;
+};
+
+const configGlob = '**/playwright.config.{ts,js,mts,mjs,cts,cjs}';
+
+function readTargets(file: string): Record<string, unknown> {
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')).targets ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Playwright target of the project holding a Playwright config. The target
+ * is cached by Nx, with the test results and the report as outputs.
+ */
+function createTarget(
+  configFile: string,
+  options: PlaywrightPluginOptions,
+  context: CreateNodesContext,
+): [string, CreateNodesResult] | undefined {
+  const root = dirname(configFile);
+  const projectFile = join(context.workspaceRoot, root, 'project.json');
+  if (
+    !existsSync(projectFile) &&
+    !existsSync(join(context.workspaceRoot, root, 'package.json'))
+  ) {
+    return undefined;
+  }
+
+  const targetName = options.targetName ?? 'e2e';
+  const serveTargetName = options.serveTargetName ?? 'serve';
+  const hasServeTarget = serveTargetName in readTargets(projectFile);
+  const target: JsonObject = {
+    executor: 'playwright-ng-schematics:playwright',
+    options: {
+      config: basename(configFile),
+      // Nx replaces {projectName} with the name of the project
+      ...(hasServeTarget
+        ? { devServerTarget: `{projectName}:${serveTargetName}` }
+        : {}),
+    },
+    cache: true,
+    inputs: [
+      'default',
+      getDependenciesInput(context.nxJsonConfiguration?.namedInputs),
+      { externalDependencies: ['@playwright/test'] },
+    ],
+    outputs: ['{projectRoot}/test-results', '{projectRoot}/playwright-report'],
+  };
+  return [
+    configFile,
+    { projects: { [root]: { targets: { [targetName]: target } } } },
+  ];
+}
+
+/**
+ * Infers a Playwright target for each project with a Playwright config, like
+ * the inferred targets of the Nx plugins.
+ */
+export const createNodesV2 = [
+  configGlob,
+  async (
+    configFiles: readonly string[],
+    options: PlaywrightPluginOptions | undefined,
+    context: CreateNodesContext,
+  ): Promise<[string, CreateNodesResult][]> =>
+    configFiles
+      .map((configFile) => createTarget(configFile, options ?? {}, context))
+      .filter((result) => result !== undefined),
+] as const;
@@ -0,0 +1,102 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const collectionPath = 'lib/schematics/collection.json';
+
+const config = `import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './e2e',
+  use: {
+    // keep this comment
+    baseURL: 'http://localhost:4200',
+  },
+
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+    {
+      name: 'firefox',
+      use: devices['Desktop Firefox'],
+      dependencies: ['db'],
+    },
+    { name: 'db', testMatch: /db\\.setup\\.ts/ },
+  ],
+});
+`;
+
+describe('auth-setup', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create(
+      '/angular.json',
+      JSON.stringify({
+        projects: {
+          shop: { projectType: 'application', root: 'projects/shop' },
+        },
+      }),
+    );
+    tree.create('/projects/shop/playwright.config.ts', config);
+    tree.create('/.gitignore', '/node_modules/\n');
+  });
+
+  it('should generate the setup file', async () => {
+    const result = await runner.runSchematic('auth-setup', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/e2e/auth.setup.ts'),
+    ).toMatchSnapshot();
+  });
+
+  it('should add the setup project to the config', async () => {
+    const result = await runner.runSchematic('auth-setup', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/playwright.config.ts'),
+    ).toMatchSnapshot();
+  });
+
+  it('should ignore the saved sessions', async () => {
+    const result = await runner.runSchematic('auth-setup', {}, tree);
+
+    expect(result.readContent('/.gitignore')).toBe(
+      '/node_modules/\n/projects/shop/playwright/.auth/\n',
+    );
+  });
+
+  it('should not change the workspace when run again', async () => {
+    const firstResult = await runner.runSchematic('auth-setup', {}, tree);
+    const files = Object.fromEntries(
+      firstResult.files.map((file) => [file, firstResult.readContent(file)]),
+    );
+    const result = await runner.runSchematic('auth-setup', {}, firstResult);
+
+    expect(
+      Object.fromEntries(
+        result.files.map((file) => [file, result.readContent(file)]),
+      ),
+    ).toEqual(files);
+  });
+
+  it('should fail when the config has no projects array', async () => {
+    tree.overwrite(
+      '/projects/shop/playwright.config.ts',
+      `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({ testDir: './e2e' });
+`,
+    );
+
+    await expect(runner.runSchematic('auth-setup', {}, tree)).rejects.toThrow(
+      'Could not find the projects array of projects/shop/playwright.config.ts, add the "setup" project by hand.',
+    );
+  });
+});
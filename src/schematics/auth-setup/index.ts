@@ -0,0 +1,251 @@
+import { dirname, join, relative } from 'node:path/posix';
+import {
+  apply,
+  applyTemplates,
+  chain,
+  mergeWith,
+  move,
+  noop,
+  type Rule,
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+  url,
+} from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+import { findConfigObject, getProperty } from '../../utils/config-object';
+import {
+  applyTextEdits,
+  findPlaywrightConfig,
+  getTestDir,
+  insertElement,
+  parseConfig,
+  type TextEdit,
+} from '../utils/playwright-config';
+import { getProject } from '../utils/workspace';
+
+interface AuthSetupOptions {
+  /** Project whose Playwright config gets the setup project */
+  project?: string;
+  /** Path of the login page of the application */
+  loginPath: string;
+}
+
+const setupProjectName = 'setup';
+
+function addSetupFile(
+  options: AuthSetupOptions,
+  testDir: string,
+  authFile: string,
+): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const setupFile = join(testDir, 'auth.setup.ts');
+    if (tree.exists(setupFile)) {
+      context.logger.info(`${setupFile} already exists, skipping.`);
+      return noop();
+    }
+    return mergeWith(
+      apply(url('./files'), [
+        applyTemplates({
+          authFile: relative(testDir, authFile),
+          loginPath: options.loginPath,
+        }),
+        move(testDir),
+      ]),
+    );
+  };
+}
+
+/**
+ * Keeps the saved sessions out of git, they hold valid credentials.
+ */
+function gitignore(authFolder: string): Rule {
+  return (tree: Tree) => {
+    const entry = `/${authFolder}/`;
+    if (!tree.exists('.gitignore')) {
+      tree.create('.gitignore', `${entry}\n`);
+      return tree;
+    }
+    const content = tree.readText('.gitignore');
+    const lines = content.split(/\r?\n/).map((line) => line.trim());
+    if (!lines.includes(entry)) {
+      const eol = content.includes('\r\n') ? '\r\n' : '\n';
+      const separator = content === '' || content.endsWith('\n') ? '' : eol;
+      tree.overwrite('.gitignore', `${content}${separator}${entry}${eol}`);
+    }
+    return tree;
+  };
+}
+
+function getStringProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): string | undefined {
+  const initializer = getProperty(object, name)?.initializer;
+  return initializer && ts.isStringLiteralLike(initializer)
+    ? initializer.text
+    : undefined;
+}
+
+/**
+ * Makes a browser project depend on the setup project and start with its
+ * saved session.
+ */
+function updateBrowserProject(
+  sourceFile: ts.SourceFile,
+  project: ts.ObjectLiteralExpression,
+  authFile: string,
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const storageState = `storageState: ${authFile}`;
+
+  const dependencies = getProperty(project, 'dependencies')?.initializer;
+  if (!dependencies) {
+    edits.push(
+      insertElement(
+        sourceFile,
+        project,
+        `dependencies: ['${setupProjectName}']`,
+      ),
+    );
+  } else if (
+    ts.isArrayLiteralExpression(dependencies) &&
+    !dependencies.elements.some(
+      (item) => ts.isStringLiteral(item) && item.text === setupProjectName,
+    )
+  ) {
+    edits.push(
+      insertElement(sourceFile, dependencies, `'${setupProjectName}'`),
+    );
+  }
+
+  const use = getProperty(project, 'use')?.initializer;
+  if (!use) {
+    edits.push(insertElement(sourceFile, project, `use: { ${storageState} }`));
+  } else if (ts.isObjectLiteralExpression(use)) {
+    if (!getProperty(use, 'storageState')) {
+      edits.push(insertElement(sourceFile, use, storageState));
+    }
+  } else {
+    // such as `use: devices['Desktop Chrome']`
+    edits.push({
+      pos: use.getStart(sourceFile),
+      end: use.end,
+      text: `{ ...${use.getText(sourceFile)}, ${storageState} }`,
+    });
+  }
+  return edits;
+}
+
+/**
+ * Local name of the `node:path` module imported by the config, and the edit
+ * importing it when it is not.
+ */
+function importPath(sourceFile: ts.SourceFile): {
+  name: string;
+  edits: TextEdit[];
+} {
+  for (const statement of sourceFile.statements.filter(
+    ts.isImportDeclaration,
+  )) {
+    const clause = statement.importClause;
+    if (
+      !clause ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !['path', 'node:path'].includes(statement.moduleSpecifier.text)
+    ) {
+      continue;
+    }
+    if (clause.name) {
+      return { name: clause.name.text, edits: [] };
+    }
+    if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+      return { name: clause.namedBindings.name.text, edits: [] };
+    }
+  }
+  return {
+    name: 'path',
+    edits: [{ pos: 0, end: 0, text: "import path from 'node:path';\n" }],
+  };
+}
+
+/**
+ * Adds the setup project to the config, and makes the other projects depend
+ * on it.
+ */
+function updateConfig(configFile: string, authFile: string): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const sourceFile = parseConfig(tree, configFile);
+    const config = findConfigObject(sourceFile);
+    const projects = config && getProperty(config, 'projects')?.initializer;
+    if (!projects || !ts.isArrayLiteralExpression(projects)) {
+      throw new SchematicsException(
+        `Could not find the projects array of ${configFile}, add the "${setupProjectName}" project by hand.`,
+      );
+    }
+
+    const configProjects = projects.elements.filter(
+      ts.isObjectLiteralExpression,
+    );
+    const names = configProjects.map((project) =>
+      getStringProperty(project, 'name'),
+    );
+    if (names.includes(setupProjectName)) {
+      context.logger.info(
+        `${configFile} already has a "${setupProjectName}" project.`,
+      );
+      return tree;
+    }
+
+    // projects other projects depend on run setups of their own
+    const setupProjects = configProjects.flatMap((project) => {
+      const dependencies = getProperty(project, 'dependencies')?.initializer;
+      return dependencies && ts.isArrayLiteralExpression(dependencies)
+        ? dependencies.elements
+            .filter(ts.isStringLiteral)
+            .map((item) => item.text)
+        : [];
+    });
+    const browserProjects = configProjects.filter(
+      (_project, index) => !setupProjects.includes(names[index] ?? ''),
+    );
+    // relative to the config, Playwright resolves paths from the working
+    // directory
+    const path = importPath(sourceFile);
+    const authPath = `${path.name}.join(__dirname, '${relative(dirname(configFile), authFile)}')`;
+    const edits = [
+      ...path.edits,
+      insertElement(
+        sourceFile,
+        projects,
+        `{ name: '${setupProjectName}', testMatch: /auth\\.setup\\.ts/ }`,
+        'start',
+      ),
+      ...browserProjects.flatMap((project) =>
+        updateBrowserProject(sourceFile, project, authPath),
+      ),
+    ];
+    tree.overwrite(configFile, applyTextEdits(sourceFile.text, edits));
+    return tree;
+  };
+}
+
+export default function authSetup(options: AuthSetupOptions): Rule {
+  return (tree: Tree, _context: SchematicContext) => {
+    const project = getProject(tree, options.project)?.project;
+    const configFile = findPlaywrightConfig(tree, project);
+    if (!configFile) {
+      throw new SchematicsException(
+        'No Playwright config found, run "ng add playwright-ng-schematics" first.',
+      );
+    }
+    const authFolder = join(dirname(configFile), 'playwright/.auth');
+    const authFile = join(authFolder, 'user.json');
+
+    return chain([
+      addSetupFile(options, getTestDir(tree, project), authFile),
+      gitignore(authFolder),
+      updateConfig(configFile, authFile),
+    ]);
+  };
+}
@@ -0,0 +1,188 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const collectionPath = 'lib/schematics/collection.json';
+
+const config = `import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './e2e',
+  /* Reporter to use. See https://playwright.dev/docs/test-reporters */
+  reporter: 'html',
+  use: {
+    baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4200',
+
+    /* Collect trace when retrying the failed test. */
+    trace: 'on-first-retry',
+  },
+
+  /* Configure projects for major browsers */
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+    {
+      name: 'webkit',
+      use: { ...devices['Desktop Safari'] },
+    },
+  ],
+});
+`;
+
+describe('config', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create('/playwright.config.ts', config);
+  });
+
+  it('should add and remove projects', async () => {
+    const result = await runner.runSchematic(
+      'config',
+      { addDevice: ['Pixel 5', 'msedge'], removeProject: ['webkit'] },
+      tree,
+    );
+
+    expect(result.readContent('/playwright.config.ts')).toMatchSnapshot();
+  });
+
+  it('should add and remove reporters', async () => {
+    const withJunit = await runner.runSchematic(
+      'config',
+      { reporter: ['junit', 'list'] },
+      tree,
+    );
+    expect(withJunit.readContent('/playwright.config.ts')).toContain(
+      "reporter: [['html'], ['junit', { outputFile: 'test-results/junit.xml' }], ['list']],",
+    );
+
+    const result = await runner.runSchematic(
+      'config',
+      { removeReporter: ['html', 'list'] },
+      withJunit,
+    );
+    expect(result.readContent('/playwright.config.ts')).toContain(
+      "reporter: [['junit', { outputFile: 'test-results/junit.xml' }]],",
+    );
+  });
+
+  it('should remove the reporter option with its last reporter', async () => {
+    tree.overwrite(
+      '/playwright.config.ts',
+      config.replace("reporter: 'html'", "reporter: [['html'], ['list']]"),
+    );
+
+    const result = await runner.runSchematic(
+      'config',
+      { removeReporter: ['html', 'list'] },
+      tree,
+    );
+
+    expect(result.readContent('/playwright.config.ts')).not.toContain(
+      'reporter',
+    );
+  });
+
+  it('should set and remove use options', async () => {
+    const result = await runner.runSchematic(
+      'config',
+      {
+        use: ['trace=retain-on-failure', 'video=on', 'actionTimeout=5000'],
+        removeUse: ['baseURL'],
+      },
+      tree,
+    );
+
+    expect(result.readContent('/playwright.config.ts')).toMatchSnapshot();
+  });
+
+  it('should set use options of nested objects', async () => {
+    const result = await runner.runSchematic(
+      'config',
+      {
+        use: [
+          'contextOptions.ignoreHTTPSErrors=true',
+          'contextOptions.reducedMotion=reduce',
+          'trace=on',
+        ],
+      },
+      tree,
+    );
+
+    const content = result.readContent('/playwright.config.ts');
+    expect(content).toContain(
+      "contextOptions: { ignoreHTTPSErrors: true, reducedMotion: 'reduce' }",
+    );
+    expect(content).toContain("trace: 'on',");
+  });
+
+  it('should fail on a use option which is not a name', async () => {
+    await expect(
+      runner.runSchematic('config', { use: ['video-mode=on'] }, tree),
+    ).rejects.toThrow(
+      '"video-mode" is not a valid use option name, expected a name such as actionTimeout, or a path such as contextOptions.ignoreHTTPSErrors.',
+    );
+  });
+
+  it('should not change the config when the entries already exist', async () => {
+    const result = await runner.runSchematic(
+      'config',
+      { addDevice: ['chromium'], reporter: ['html'] },
+      tree,
+    );
+
+    expect(result.readContent('/playwright.config.ts')).toBe(config);
+  });
+
+  it('should edit the config of the project', async () => {
+    tree.create(
+      '/angular.json',
+      JSON.stringify({
+        projects: {
+          shop: { projectType: 'application', root: 'projects/shop' },
+        },
+      }),
+    );
+    tree.create('/projects/shop/playwright.config.ts', config);
+
+    const result = await runner.runSchematic(
+      'config',
+      { project: 'shop', removeProject: ['webkit'] },
+      tree,
+    );
+
+    expect(result.readContent('/playwright.config.ts')).toBe(config);
+    expect(result.readContent('/projects/shop/playwright.config.ts')).not.toBe(
+      config,
+    );
+  });
+
+  it('should fail when an entry has an unknown shape', async () => {
+    tree.overwrite(
+      '/playwright.config.ts',
+      config.replace(/projects: \[[\s\S]*\],\n/, 'projects: browsers,\n'),
+    );
+
+    await expect(
+      runner.runSchematic('config', { addDevice: ['firefox'] }, tree),
+    ).rejects.toThrow(
+      '"projects" of the Playwright config is not an array, edit it by hand.',
+    );
+  });
+
+  it('should fail when there is no defineConfig object', async () => {
+    tree.overwrite('/playwright.config.ts', 'export default createConfig();\n');
+
+    await expect(
+      runner.runSchematic('config', { reporter: ['list'] }, tree),
+    ).rejects.toThrow(
+      'Could not find the object given to defineConfig in playwright.config.ts, edit it by hand.',
+    );
+  });
+});
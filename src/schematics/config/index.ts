@@ -0,0 +1,372 @@
+import {
+  type Rule,
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+} from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+import { findConfigObject, getProperty } from '../../utils/config-object';
+import {
+  applyTextEdits,
+  browserProjects,
+  findPlaywrightConfig,
+  insertElement,
+  removeElement,
+  reporterOutputFiles,
+  setProperty,
+  type TextEdit,
+} from '../utils/playwright-config';
+import { getProject } from '../utils/workspace';
+
+interface ConfigOptions {
+  /** Project whose Playwright config is edited */
+  project?: string;
+  /** Browsers of ng-add, such as `mobile-chrome`, or Playwright devices */
+  addDevice?: string[];
+  /** Names of the projects to remove */
+  removeProject?: string[];
+  /** Reporters to add */
+  reporter?: string[];
+  /** Reporters to remove */
+  removeReporter?: string[];
+  /** Options of `use` to set, as `name=value` */
+  use?: string[];
+  /** Options of `use` to remove */
+  removeUse?: string[];
+}
+
+/**
+ * A change of the config, computed from its current content.
+ */
+type ConfigEdit = (
+  sourceFile: ts.SourceFile,
+  config: ts.ObjectLiteralExpression,
+) => TextEdit[];
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function getString(expression?: ts.Expression): string | undefined {
+  return expression && ts.isStringLiteralLike(expression)
+    ? expression.text
+    : undefined;
+}
+
+/**
+ * Initializer of a property of the config, which must have the given shape
+ * when it exists.
+ */
+function getInitializer<T extends ts.Expression>(
+  config: ts.ObjectLiteralExpression,
+  name: string,
+  isShape: (node: ts.Node) => node is T,
+  shape: string,
+): T | undefined {
+  const initializer = getProperty(config, name)?.initializer;
+  if (initializer && !isShape(initializer)) {
+    throw new SchematicsException(
+      `"${name}" of the Playwright config is not ${shape}, edit it by hand.`,
+    );
+  }
+  return initializer;
+}
+
+/**
+ * Adds `devices` to the import of `@playwright/test`.
+ */
+function importDevices(sourceFile: ts.SourceFile): TextEdit[] {
+  const namedImports = sourceFile.statements
+    .filter(ts.isImportDeclaration)
+    .filter(
+      (statement) =>
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text === '@playwright/test',
+    )
+    .map((statement) => statement.importClause?.namedBindings)
+    .find((bindings) => bindings && ts.isNamedImports(bindings));
+  if (!namedImports || !ts.isNamedImports(namedImports)) {
+    throw new SchematicsException(
+      'Could not find the import of @playwright/test in the Playwright config, import "devices" by hand.',
+    );
+  }
+  if (namedImports.elements.some((item) => item.name.text === 'devices')) {
+    return [];
+  }
+  const last = namedImports.elements[namedImports.elements.length - 1];
+  const pos = last ? last.end : namedImports.getStart(sourceFile) + 1;
+  return [{ pos, end: pos, text: last ? ', devices' : ' devices ' }];
+}
+
+function addDevice(device: string): ConfigEdit {
+  return (sourceFile, config) => {
+    const browserProject = browserProjects[device] ?? {
+      name: device,
+      device,
+    };
+    const projects = getInitializer(
+      config,
+      'projects',
+      ts.isArrayLiteralExpression,
+      'an array',
+    );
+    const exists = projects?.elements.some(
+      (project) =>
+        ts.isObjectLiteralExpression(project) &&
+        getString(getProperty(project, 'name')?.initializer) ===
+          browserProject.name,
+    );
+    if (exists) {
+      return [];
+    }
+
+    const channel = browserProject.channel
+      ? `, channel: ${quote(browserProject.channel)}`
+      : '';
+    const name = `name: ${quote(browserProject.name)}`;
+    const use = `use: { ...devices[${quote(browserProject.device)}]${channel} }`;
+    // like the projects generated by ng-add
+    const project = projects?.getText(sourceFile).includes('\n')
+      ? `{\n  ${name},\n  ${use},\n}`
+      : `{ ${name}, ${use} }`;
+    return [
+      ...importDevices(sourceFile),
+      projects
+        ? insertElement(sourceFile, projects, project)
+        : insertElement(sourceFile, config, `projects: [${project}]`),
+    ];
+  };
+}
+
+function removeProject(name: string): ConfigEdit {
+  return (sourceFile, config) => {
+    const projects = getInitializer(
+      config,
+      'projects',
+      ts.isArrayLiteralExpression,
+      'an array',
+    );
+    const project = projects?.elements.find(
+      (item) =>
+        ts.isObjectLiteralExpression(item) &&
+        getString(getProperty(item, 'name')?.initializer) === name,
+    );
+    return projects && project
+      ? [removeElement(sourceFile, projects.elements, project)]
+      : [];
+  };
+}
+
+/**
+ * Name of a reporter, from `'html'` or `['html', { open: 'never' }]`.
+ */
+function getReporterName(entry: ts.Expression): string | undefined {
+  return ts.isArrayLiteralExpression(entry)
+    ? getString(entry.elements[0])
+    : getString(entry);
+}
+
+function formatReporter(name: string): string {
+  return reporterOutputFiles[name]
+    ? `[${quote(name)}, { outputFile: ${quote(reporterOutputFiles[name])} }]`
+    : `[${quote(name)}]`;
+}
+
+function isReporter(
+  node: ts.Node,
+): node is ts.StringLiteralLike | ts.ArrayLiteralExpression {
+  return ts.isStringLiteralLike(node) || ts.isArrayLiteralExpression(node);
+}
+
+function addReporter(name: string): ConfigEdit {
+  return (sourceFile, config) => {
+    const reporter = getInitializer(
+      config,
+      'reporter',
+      isReporter,
+      'a string or an array',
+    );
+    if (!reporter) {
+      return [
+        insertElement(
+          sourceFile,
+          config,
+          `reporter: [${formatReporter(name)}]`,
+        ),
+      ];
+    }
+    if (ts.isStringLiteralLike(reporter)) {
+      return reporter.text === name
+        ? []
+        : [
+            {
+              pos: reporter.getStart(sourceFile),
+              end: reporter.end,
+              text: `[${formatReporter(reporter.text)}, ${formatReporter(name)}]`,
+            },
+          ];
+    }
+    return reporter.elements.some((entry) => getReporterName(entry) === name)
+      ? []
+      : [insertElement(sourceFile, reporter, formatReporter(name))];
+  };
+}
+
+function removeReporter(name: string): ConfigEdit {
+  return (sourceFile, config) => {
+    const reporter = getInitializer(
+      config,
+      'reporter',
+      isReporter,
+      'a string or an array',
+    );
+    const property = getProperty(config, 'reporter');
+    if (!reporter || !property) {
+      return [];
+    }
+    if (ts.isStringLiteralLike(reporter)) {
+      // Playwright falls back to its default reporter
+      return reporter.text === name
+        ? [removeElement(sourceFile, config.properties, property)]
+        : [];
+    }
+    const entries = reporter.elements.filter(
+      (entry) => getReporterName(entry) === name,
+    );
+    if (entries.length > 0 && entries.length === reporter.elements.length) {
+      // an empty array would turn off reporting
+      return [removeElement(sourceFile, config.properties, property)];
+    }
+    return entries.map((entry) =>
+      removeElement(sourceFile, reporter.elements, entry),
+    );
+  };
+}
+
+/**
+ * Value of a `use` option as code: JSON values as they are, anything else as
+ * a string.
+ */
+function formatValue(value: string): string {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'string' ? quote(parsed) : value;
+  } catch {
+    return quote(value);
+  }
+}
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Sets an option of `use`. A dotted name, such as
+ * `contextOptions.ignoreHTTPSErrors`, sets an option of a nested object.
+ */
+function setUse(option: string): ConfigEdit {
+  const separator = option.indexOf('=');
+  if (separator <= 0) {
+    throw new SchematicsException(
+      `"${option}" is not a valid use option, expected name=value.`,
+    );
+  }
+  const name = option.slice(0, separator).trim();
+  const path = name.split('.');
+  if (!path.every((part) => identifier.test(part))) {
+    throw new SchematicsException(
+      `"${name}" is not a valid use option name, expected a name such as actionTimeout, or a path such as contextOptions.ignoreHTTPSErrors.`,
+    );
+  }
+  const value = formatValue(option.slice(separator + 1).trim());
+  return (sourceFile, config) => {
+    const names = ['use', ...path];
+    let object = config;
+    let depth = 0;
+    // down to the deepest object of the path which exists
+    while (depth < names.length - 1) {
+      const initializer = getProperty(object, names[depth])?.initializer;
+      if (!initializer) {
+        break;
+      }
+      if (!ts.isObjectLiteralExpression(initializer)) {
+        throw new SchematicsException(
+          `"${names.slice(0, depth + 1).join('.')}" of the Playwright config is not an object, edit it by hand.`,
+        );
+      }
+      object = initializer;
+      depth++;
+    }
+    const text = names
+      .slice(depth + 1)
+      .reduceRight((inner, key) => `{ ${key}: ${inner} }`, value);
+    return [setProperty(sourceFile, object, names[depth], text)];
+  };
+}
+
+function removeUse(name: string): ConfigEdit {
+  return (sourceFile, config) => {
+    const use = getInitializer(
+      config,
+      'use',
+      ts.isObjectLiteralExpression,
+      'an object',
+    );
+    const property = use && getProperty(use, name);
+    return use && property
+      ? [removeElement(sourceFile, use.properties, property)]
+      : [];
+  };
+}
+
+/**
+ * Edits `projects`, `reporter` and `use` of `playwright.config.ts`, keeping
+ * the rest of the file, comments included, as it is.
+ */
+export default function config(options: ConfigOptions): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const configFile = findPlaywrightConfig(
+      tree,
+      getProject(tree, options.project)?.project,
+    );
+    if (!configFile) {
+      throw new SchematicsException(
+        'No Playwright config found, run "ng add playwright-ng-schematics" first.',
+      );
+    }
+
+    const edits: ConfigEdit[] = [
+      ...(options.removeProject ?? []).map(removeProject),
+      ...(options.addDevice ?? []).map(addDevice),
+      ...(options.removeReporter ?? []).map(removeReporter),
+      ...(options.reporter ?? []).map(addReporter),
+      ...(options.removeUse ?? []).map(removeUse),
+      ...(options.use ?? []).map(setUse),
+    ];
+    if (edits.length === 0) {
+      context.logger.warn('Nothing to change in the Playwright config.');
+      return tree;
+    }
+
+    // each edit is computed from the result of the previous one
+    const content = edits.reduce((text, edit) => {
+      const sourceFile = ts.createSourceFile(
+        configFile,
+        text,
+        ts.ScriptTarget.Latest,
+        true,
+      );
+      const configObject = findConfigObject(sourceFile);
+      if (!configObject) {
+        throw new SchematicsException(
+          `Could not find the object given to defineConfig in ${configFile}, edit it by hand.`,
+        );
+      }
+      return applyTextEdits(text, edit(sourceFile, configObject));
+    }, tree.readText(configFile));
+
+    if (content !== tree.readText(configFile)) {
+      tree.overwrite(configFile, content);
+      context.logger.info(`Updated ${configFile}.`);
+    }
+    return tree;
+  };
+}
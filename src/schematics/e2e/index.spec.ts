@@ -1,5 +1,8 @@
-import { Tree } from '@angular-devkit/schematics';
-import { SchematicTestRunner } from '@angular-devkit/schematics/testing';
+import { HostTree, Tree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
 
 const collectionPath = 'lib/schematics/collection.json';
 
@@ -15,4 +18,202 @@ describe('e2e', () => {
     expect(tree.files).toEqual(['/e2e/hello.spec.ts']);
     expect(tree.readContent('/e2e/hello.spec.ts')).toMatchSnapshot();
   });
+
+  it('should generate a page object', async () => {
+    const runner = new SchematicTestRunner('schematics', collectionPath);
+    const tree = await runner.runSchematic(
+      'e2e',
+      { name: 'hello', pageObject: true },
+      Tree.empty(),
+    );
+
+    expect(tree.files).toEqual(['/e2e/hello.page.ts', '/e2e/hello.spec.ts']);
+    expect(tree.readContent('/e2e/hello.page.ts')).toMatchSnapshot();
+    expect(tree.readContent('/e2e/hello.spec.ts')).toMatchSnapshot();
+  });
+
+  it('should register the page object as a fixture', async () => {
+    const runner = new SchematicTestRunner('schematics', collectionPath);
+    const tree = await runner.runSchematic(
+      'e2e',
+      { name: 'hello', fixture: true },
+      Tree.empty(),
+    );
+
+    expect(tree.files).toEqual([
+      '/e2e/hello.page.ts',
+      '/e2e/hello.spec.ts',
+      '/e2e/fixtures.ts',
+    ]);
+    expect(tree.readContent('/e2e/fixtures.ts')).toMatchSnapshot();
+    expect(tree.readContent('/e2e/hello.spec.ts')).toMatchSnapshot();
+  });
+
+  it('should add fixtures to an existing fixtures.ts', async () => {
+    const runner = new SchematicTestRunner('schematics', collectionPath);
+    const helloTree = await runner.runSchematic(
+      'e2e',
+      { name: 'hello', fixture: true },
+      Tree.empty(),
+    );
+    const tree = await runner.runSchematic(
+      'e2e',
+      { name: 'user-profile', fixture: true },
+      helloTree,
+    );
+
+    expect(tree.readContent('/e2e/fixtures.ts')).toMatchSnapshot();
+  });
+
+  describe('in a workspace', () => {
+    const runner = new SchematicTestRunner('schematics', collectionPath);
+    let tree: UnitTestTree;
+
+    beforeEach(() => {
+      tree = new UnitTestTree(new HostTree());
+      tree.create(
+        '/angular.json',
+        JSON.stringify({
+          projects: {
+            shop: {
+              projectType: 'application',
+              root: 'projects/shop',
+              architect: {
+                e2e: {
+                  builder: 'playwright-ng-schematics:playwright',
+                  options: { config: 'playwright.config.ts' },
+                },
+              },
+            },
+          },
+        }),
+      );
+      tree.create(
+        '/projects/shop/playwright.config.ts',
+        `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+});
+`,
+      );
+    });
+
+    it('should generate the spec in the testDir of the project', async () => {
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'hello', project: 'shop' },
+        tree,
+      );
+
+      expect(result.files).toContain('/projects/shop/tests/hello.spec.ts');
+    });
+
+    it('should generate the spec in the given path', async () => {
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'hello', path: 'projects/shop/smoke' },
+        tree,
+      );
+
+      expect(result.files).toContain('/projects/shop/smoke/hello.spec.ts');
+    });
+
+    it('should generate nested names in folders', async () => {
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'admin/userList', fixture: true },
+        tree,
+      );
+
+      expect(result.files).toEqual(
+        expect.arrayContaining([
+          '/projects/shop/tests/admin/user-list.page.ts',
+          '/projects/shop/tests/admin/user-list.spec.ts',
+          '/projects/shop/tests/fixtures.ts',
+        ]),
+      );
+      expect(
+        result.readContent('/projects/shop/tests/admin/user-list.spec.ts'),
+      ).toContain("from '../fixtures';");
+      expect(
+        result.readContent('/projects/shop/tests/admin/user-list.page.ts'),
+      ).toContain("await this.page.goto('/admin/user-list');");
+      expect(result.readContent('/projects/shop/tests/fixtures.ts')).toContain(
+        "import { UserListPage } from './admin/user-list.page';",
+      );
+    });
+
+    it('should generate the spec in its own folder when not flat', async () => {
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'hello', flat: false },
+        tree,
+      );
+
+      expect(result.files).toContain(
+        '/projects/shop/tests/hello/hello.spec.ts',
+      );
+    });
+
+    it('should not overwrite an existing spec unless forced', async () => {
+      tree.create('/projects/shop/tests/hello.spec.ts', 'existing');
+
+      await expect(
+        runner.runSchematic('e2e', { name: 'hello' }, tree),
+      ).rejects.toThrow(
+        'projects/shop/tests/hello.spec.ts already exists, use --force to overwrite it.',
+      );
+
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'hello', force: true },
+        tree,
+      );
+      expect(
+        result.readContent('/projects/shop/tests/hello.spec.ts'),
+      ).toContain("await page.goto('/');");
+    });
+
+    it('should not overwrite an existing page object unless forced', async () => {
+      tree.create('/projects/shop/tests/hello.page.ts', 'existing');
+
+      await expect(
+        runner.runSchematic('e2e', { name: 'hello', pageObject: true }, tree),
+      ).rejects.toThrow(
+        'projects/shop/tests/hello.page.ts already exists, use --force to overwrite it.',
+      );
+
+      const result = await runner.runSchematic(
+        'e2e',
+        { name: 'hello', pageObject: true, force: true },
+        tree,
+      );
+      expect(
+        result.readContent('/projects/shop/tests/hello.page.ts'),
+      ).toContain('export class HelloPage');
+    });
+  });
+
+  it('should generate the spec in the project of an Nx workspace', async () => {
+    const runner = new SchematicTestRunner('schematics', collectionPath);
+    const tree = new UnitTestTree(new HostTree());
+    tree.create('/nx.json', '{}');
+    tree.create(
+      '/apps/shop/project.json',
+      JSON.stringify({ name: 'shop', projectType: 'application' }),
+    );
+    tree.create(
+      '/apps/shop/playwright.config.ts',
+      "export default defineConfig({ testDir: './tests' });\n",
+    );
+
+    const result = await runner.runSchematic(
+      'e2e',
+      { name: 'hello', project: 'shop' },
+      tree,
+    );
+
+    expect(result.files).toContain('/apps/shop/tests/hello.spec.ts');
+  });
 });
@@ -1,30 +1,204 @@
+import { dirname, join, relative } from 'node:path/posix';
 import { strings } from '@angular-devkit/core';
 import {
   apply,
   applyTemplates,
   chain,
+  filter,
+  MergeStrategy,
   mergeWith,
   move,
+  noop,
   type Rule,
   type SchematicContext,
+  SchematicsException,
   type Tree,
   url,
 } from '@angular-devkit/schematics';
+import { getTestDir } from '../utils/playwright-config';
+import { getProject } from '../utils/workspace';
+
+interface E2eOptions {
+  /** Name of the spec, possibly in a folder such as `admin/users` */
+  name: string;
+  /** Project whose Playwright `testDir` holds the spec */
+  project?: string;
+  /** Folder of the spec, relative to the workspace root */
+  path?: string;
+  /** Creates the spec directly in the folder instead of in its own folder */
+  flat?: boolean;
+  /** Overwrites an existing spec */
+  force?: boolean;
+  /** Generates a page object next to the spec */
+  pageObject?: boolean;
+  /** Registers the page object as a fixture in `fixtures.ts` */
+  fixture?: boolean;
+}
+
+/**
+ * Relative import path between two files of the workspace, without the
+ * extension.
+ */
+function toImportPath(from: string, to: string): string {
+  const path = relative(dirname(from), to).replace(/\.ts$/, '');
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+/**
+ * Content of a new `fixtures.ts`, extending `test` with the page object.
+ */
+function createFixtures(name: string, pageImport: string): string {
+  return `import { test as base } from '@playwright/test';
+import { ${strings.classify(name)}Page } from '${pageImport}';
+
+type Fixtures = {
+  ${strings.camelize(name)}Page: ${strings.classify(name)}Page;
+};
+
+export const test = base.extend<Fixtures>({
+  ${strings.camelize(name)}Page: async ({ page }, use) => {
+    await use(new ${strings.classify(name)}Page(page));
+  },
+});
+
+export { expect } from '@playwright/test';
+`;
+}
+
+/**
+ * Adds the page object to the `Fixtures` type and to `base.extend` of an
+ * existing `fixtures.ts`, as generated by `createFixtures`.
+ */
+function updateFixtures(
+  content: string,
+  name: string,
+  pageImport: string,
+): string | undefined {
+  const fixtureName = `${strings.camelize(name)}Page`;
+  const className = `${strings.classify(name)}Page`;
+  const lines = content.split('\n');
+
+  const lastImport = lines.reduce(
+    (last, line, index) => (line.startsWith('import ') ? index : last),
+    -1,
+  );
+  const fixturesType = lines.findIndex((line) =>
+    line.startsWith('type Fixtures = {'),
+  );
+  const fixturesTypeEnd = lines.indexOf('};', fixturesType);
+  const extend = lines.findIndex((line) =>
+    line.includes('.extend<Fixtures>({'),
+  );
+  const extendEnd = lines.indexOf('});', extend);
+  if (
+    [lastImport, fixturesType, fixturesTypeEnd, extend, extendEnd].includes(-1)
+  ) {
+    return undefined;
+  }
+
+  // from the end, so that the indexes stay valid
+  lines.splice(
+    extendEnd,
+    0,
+    `  ${fixtureName}: async ({ page }, use) => {`,
+    `    await use(new ${className}(page));`,
+    '  },',
+  );
+  lines.splice(fixturesTypeEnd, 0, `  ${fixtureName}: ${className};`);
+  lines.splice(
+    lastImport + 1,
+    0,
+    `import { ${className} } from '${pageImport}';`,
+  );
+  return lines.join('\n');
+}
+
+function addFixture(
+  fixturesFile: string,
+  pageFile: string,
+  name: string,
+): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const pageImport = toImportPath(fixturesFile, pageFile);
+    if (!tree.exists(fixturesFile)) {
+      tree.create(fixturesFile, createFixtures(name, pageImport));
+      return tree;
+    }
+
+    const content = tree.readText(fixturesFile);
+    if (content.includes(`${strings.camelize(name)}Page:`)) {
+      context.logger.info(
+        `${fixturesFile} already has a "${strings.camelize(name)}Page" fixture.`,
+      );
+      return tree;
+    }
+    const updatedContent = updateFixtures(content, name, pageImport);
+    if (!updatedContent) {
+      context.logger.warn(
+        `Could not find "type Fixtures" and "extend<Fixtures>" in ${fixturesFile}, add the "${strings.camelize(name)}Page" fixture by hand.`,
+      );
+      return tree;
+    }
+    tree.overwrite(fixturesFile, updatedContent);
+    return tree;
+  };
+}
 
 // You don't have to export the function as default. You can also have more than one rule factory
 // per file.
-export default function e2e(options: { name: string }): Rule {
+export default function e2e(options: E2eOptions): Rule {
   return (tree: Tree, _context: SchematicContext) => {
+    const segments = options.name
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => strings.dasherize(segment));
+    const name = segments.pop() ?? '';
+    const testDir =
+      options.path ??
+      getTestDir(tree, getProject(tree, options.project)?.project);
+    const folder = join(
+      testDir,
+      ...segments,
+      options.flat === false ? name : '',
+    );
+    const specFile = join(folder, `${name}.spec.ts`);
+    const pageFile = join(folder, `${name}.page.ts`);
+    const fixturesFile = join(testDir, 'fixtures.ts');
+
+    // a fixture needs a page object
+    const pageObject = !!(options.pageObject || options.fixture);
+    const existingFile = (pageObject ? [specFile, pageFile] : [specFile]).find(
+      (file) => tree.exists(file),
+    );
+    if (existingFile && !options.force) {
+      throw new SchematicsException(
+        `${existingFile} already exists, use --force to overwrite it.`,
+      );
+    }
     const templateSource = apply(url('./files'), [
+      pageObject
+        ? noop()
+        : filter((path) => !path.endsWith('.page.ts.template')),
       applyTemplates({
         classify: strings.classify,
-        name: options.name,
+        camelize: strings.camelize,
+        name,
         dasherize: strings.dasherize,
+        pageObject,
+        fixture: !!options.fixture,
+        fixturesImport: toImportPath(specFile, fixturesFile),
+        routePath: `/${[...segments, name].join('/')}`,
       }),
-      move('e2e'),
+      move(folder),
     ]);
 
-    const rule = chain([mergeWith(templateSource)]);
+    const rule = chain([
+      mergeWith(
+        templateSource,
+        options.force ? MergeStrategy.Overwrite : MergeStrategy.Default,
+      ),
+      options.fixture ? addFixture(fixturesFile, pageFile, name) : noop(),
+    ]);
 
     return rule(tree, _context);
   };
@@ -0,0 +1,77 @@
+import { spawnSync } from 'node:child_process';
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+jest.mock('node:child_process');
+
+const cli = require.resolve('@playwright/test/cli');
+
+const collectionPath = 'lib/schematics/collection.json';
+
+const config = `import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  projects: [
+    { name: 'setup', testMatch: /auth\\.setup\\.ts/ },
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+      dependencies: ['setup'],
+    },
+    { name: 'Mobile Safari', use: { ...devices['iPhone 12'] } },
+    { name: 'Microsoft Edge', use: { ...devices['Desktop Edge'], channel: 'msedge' } },
+  ],
+});
+`;
+
+describe('install-browsers', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create('/playwright.config.ts', config);
+    (spawnSync as jest.Mock).mockReturnValue({ status: 0 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should install the browsers of the config', async () => {
+    await runner.runSchematic('install-browsers', {}, tree);
+
+    expect(spawnSync).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'install', 'chromium', 'webkit', 'msedge'],
+      expect.objectContaining({ stdio: 'inherit', shell: false }),
+    );
+  });
+
+  it('should install the given browsers with their dependencies', async () => {
+    await runner.runSchematic(
+      'install-browsers',
+      { browsers: ['firefox'], withDeps: true, browsersPath: '.browsers' },
+      tree,
+    );
+
+    expect(spawnSync).toHaveBeenCalledWith(
+      process.execPath,
+      [cli, 'install', '--with-deps', 'firefox'],
+      expect.objectContaining({
+        env: expect.objectContaining({ PLAYWRIGHT_BROWSERS_PATH: '.browsers' }),
+      }),
+    );
+  });
+
+  it('should fail when the installation fails', async () => {
+    (spawnSync as jest.Mock).mockReturnValue({ status: 1 });
+
+    await expect(
+      runner.runSchematic('install-browsers', {}, tree),
+    ).rejects.toThrow('Installing the browsers failed with exit code 1.');
+  });
+});
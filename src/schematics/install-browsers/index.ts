@@ -1,26 +1,80 @@
 import { spawnSync } from 'node:child_process';
-import type { Rule, SchematicContext, Tree } from '@angular-devkit/schematics';
+import {
+  type Rule,
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+} from '@angular-devkit/schematics';
+import { getConfigBrowsers, loadDeviceBrowsers } from '../../utils/browsers';
+import { getPlaywrightCommand } from '../../utils/package-manager';
+import { findPlaywrightConfig, parseConfig } from '../utils/playwright-config';
+import { getProject } from '../utils/workspace';
 
-export function getPackageManagerExecCommand() {
-  const env = process.env.npm_config_user_agent || '';
-  if (env.includes('yarn')) {
-    return 'yarn';
-  }
-  if (env.includes('pnpm')) {
-    return 'pnpm exec';
+interface InstallBrowsersOptions {
+  /** Project whose Playwright config lists the browsers */
+  project?: string;
+  /** Browsers to install, defaults to the ones of the config */
+  browsers?: string[];
+  /** Also install the system dependencies of the browsers */
+  withDeps?: boolean;
+  /** Folder the browsers are installed to */
+  browsersPath?: string;
+}
+
+/**
+ * Browsers used by the projects of the Playwright config. Playwright installs
+ * its default browsers when the config is missing or cannot be read.
+ */
+function getBrowsers(tree: Tree, options: InstallBrowsersOptions): string[] {
+  const configFile = findPlaywrightConfig(
+    tree,
+    getProject(tree, options.project)?.project,
+  );
+  if (!configFile) {
+    return [];
   }
-  return 'npx';
+  return (
+    getConfigBrowsers(
+      parseConfig(tree, configFile),
+      loadDeviceBrowsers(process.cwd()),
+    ) ?? []
+  );
 }
 
-export default function installBrowsers(): Rule {
+export default function installBrowsers(
+  options: InstallBrowsersOptions = {},
+): Rule {
   return (tree: Tree, context: SchematicContext) => {
-    context.logger.info('Installing browsers...');
+    const browsers = options.browsers?.length
+      ? options.browsers
+      : getBrowsers(tree, options);
+    context.logger.info(
+      `Installing ${browsers.length ? browsers.join(', ') : 'browsers'}...`,
+    );
 
-    spawnSync(`${getPackageManagerExecCommand()} playwright install`, [], {
-      cwd: process.cwd(),
-      stdio: 'inherit',
-      shell: true,
-    });
+    const playwright = getPlaywrightCommand(process.cwd());
+    const { error, status } = spawnSync(
+      playwright.command,
+      [
+        ...playwright.args,
+        'install',
+        ...(options.withDeps ? ['--with-deps'] : []),
+        ...browsers,
+      ],
+      {
+        cwd: process.cwd(),
+        stdio: 'inherit',
+        shell: playwright.shell,
+        env: options.browsersPath
+          ? { ...process.env, PLAYWRIGHT_BROWSERS_PATH: options.browsersPath }
+          : process.env,
+      },
+    );
+    if (error || status !== 0) {
+      throw new SchematicsException(
+        `Installing the browsers failed${error ? `: ${error.message}` : ` with exit code ${status}`}.`,
+      );
+    }
 
     return tree;
   };
@@ -0,0 +1,610 @@
+import { extname, join } from 'node:path/posix';
+import * as ts from 'typescript';
+import { applyTextEdits, type TextEdit } from '../utils/playwright-config';
+
+/**
+ * A Cypress call left as it was, with a `TODO(migrate)` marker.
+ */
+export interface UnconvertedCall {
+  /** 1-based line in the Cypress spec */
+  line: number;
+  /** Code of the call */
+  code: string;
+}
+
+export interface ConvertedSpec {
+  content: string;
+  /** Number of Cypress calls converted */
+  converted: number;
+  unconverted: UnconvertedCall[];
+}
+
+/**
+ * Where code runs: a test or hook given `page`, a hook without it, or any
+ * other function.
+ */
+type Scope = 'page' | 'hook' | undefined;
+
+interface ChainLink {
+  name: string;
+  args: string[];
+  nodes: ts.NodeArray<ts.Expression>;
+}
+
+const todo = '// TODO(migrate):';
+
+/**
+ * Mocha functions of Cypress, and their Playwright equivalent.
+ */
+const testFunctions: Record<string, string> = {
+  describe: 'test.describe',
+  context: 'test.describe',
+  it: 'test',
+  specify: 'test',
+  beforeEach: 'test.beforeEach',
+  afterEach: 'test.afterEach',
+  before: 'test.beforeAll',
+  after: 'test.afterAll',
+};
+
+/**
+ * Mocha functions whose callback gets the `page` fixture.
+ */
+const pageFunctions = ['it', 'specify', 'beforeEach', 'afterEach'];
+
+/**
+ * Chai chainers of `should` on elements, and their Playwright matcher.
+ */
+const locatorMatchers: Record<string, string> = {
+  'be.visible': 'toBeVisible',
+  'be.hidden': 'toBeHidden',
+  exist: 'toBeAttached',
+  'be.checked': 'toBeChecked',
+  'be.disabled': 'toBeDisabled',
+  'be.enabled': 'toBeEnabled',
+  'be.empty': 'toBeEmpty',
+  'be.focused': 'toBeFocused',
+  'have.focus': 'toBeFocused',
+  'have.text': 'toHaveText',
+  contain: 'toContainText',
+  'contain.text': 'toContainText',
+  'include.text': 'toContainText',
+  'have.value': 'toHaveValue',
+  'have.length': 'toHaveCount',
+  'have.attr': 'toHaveAttribute',
+  'have.class': 'toContainClass',
+  'have.id': 'toHaveId',
+  'have.css': 'toHaveCSS',
+};
+
+/**
+ * Actions on elements without arguments, and their Playwright equivalent.
+ */
+const locatorActions: Record<string, string> = {
+  click: 'click',
+  dblclick: 'dblclick',
+  rightclick: "click({ button: 'right' })",
+  clear: 'clear',
+  check: 'check',
+  uncheck: 'uncheck',
+  focus: 'focus',
+  blur: 'blur',
+};
+
+const httpMethods = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Calls chained on `cy`, from `cy.get('a').click()`.
+ */
+function getCypressChain(expression: ts.Expression): ChainLink[] | undefined {
+  const links: ChainLink[] = [];
+  let current = expression;
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    links.unshift({
+      name: current.expression.name.text,
+      args: current.arguments.map((arg) => arg.getText()),
+      nodes: current.arguments,
+    });
+    current = current.expression.expression;
+  }
+  return ts.isIdentifier(current) && current.text === 'cy' && links.length
+    ? links
+    : undefined;
+}
+
+/**
+ * `expect` of a `should` or `and`, for a locator, the URL or the title.
+ */
+function convertAssertion(
+  subject: 'locator' | 'url' | 'title',
+  target: string,
+  { nodes, args }: ChainLink,
+): string | undefined {
+  const chainer = nodes[0];
+  if (!chainer || !ts.isStringLiteralLike(chainer)) {
+    return undefined;
+  }
+  const negated = chainer.text.startsWith('not.');
+  const not = negated ? '.not' : '';
+  const name = chainer.text.replace(/^not\./, '');
+  const values = args.slice(1);
+
+  if (subject === 'locator') {
+    const matcher = locatorMatchers[name];
+    return matcher
+      ? `await expect(${target})${not}.${matcher}(${values.join(', ')});`
+      : undefined;
+  }
+
+  const matcher = subject === 'url' ? 'toHaveURL' : 'toHaveTitle';
+  const value = nodes[1];
+  if (!value || values.length !== 1) {
+    return undefined;
+  }
+  if (['eq', 'equal'].includes(name)) {
+    return `await expect(page)${not}.${matcher}(${values[0]});`;
+  }
+  if (['include', 'contain'].includes(name) && ts.isStringLiteralLike(value)) {
+    return `await expect(page)${not}.${matcher}(/${escapeRegExp(value.text)}/);`;
+  }
+  if (name === 'match' && ts.isRegularExpressionLiteral(value)) {
+    return `await expect(page)${not}.${matcher}(${values[0]});`;
+  }
+  return undefined;
+}
+
+/**
+ * Statements for the commands chained on an element.
+ */
+function convertLocatorChain(
+  locator: string,
+  links: ChainLink[],
+): string[] | undefined {
+  const statements: string[] = [];
+  let target = locator;
+  for (const link of links) {
+    const { name, args, nodes } = link;
+    if (name === 'find' && args.length === 1) {
+      target = `${target}.locator(${args[0]})`;
+    } else if ((name === 'first' || name === 'last') && !args.length) {
+      target = `${target}.${name}()`;
+    } else if (
+      name === 'eq' &&
+      nodes[0] &&
+      ts.isNumericLiteral(nodes[0]) &&
+      args.length === 1
+    ) {
+      target = `${target}.nth(${args[0]})`;
+    } else if (name === 'contains' && args.length === 1) {
+      target = `${target}.getByText(${args[0]})`;
+    } else if (locatorActions[name] && !args.length) {
+      statements.push(`await ${target}.${locatorActions[name]}();`);
+    } else if (
+      name === 'type' &&
+      nodes[0] &&
+      args.length === 1 &&
+      // special sequences such as {enter} are keyboard presses
+      !(ts.isStringLiteralLike(nodes[0]) && nodes[0].text.includes('{'))
+    ) {
+      statements.push(`await ${target}.fill(${args[0]});`);
+    } else if (name === 'select' && args.length === 1) {
+      statements.push(`await ${target}.selectOption(${args[0]});`);
+    } else if (name === 'should' || name === 'and') {
+      const assertion = convertAssertion('locator', target, link);
+      if (!assertion) {
+        return undefined;
+      }
+      statements.push(assertion);
+    } else {
+      return undefined;
+    }
+  }
+  // cy.get() alone waits for the element to exist
+  return statements.length
+    ? statements
+    : [`await expect(${target}).toBeAttached();`];
+}
+
+/**
+ * Options of `route.fulfill` for the static response of `cy.intercept`.
+ */
+function convertStaticResponse(
+  response: ts.Expression,
+  fixturesFolder: string,
+): string | undefined {
+  if (ts.isStringLiteralLike(response)) {
+    return `{ body: ${response.getText()} }`;
+  }
+  if (!ts.isObjectLiteralExpression(response)) {
+    return undefined;
+  }
+  const options: string[] = [];
+  for (const property of response.properties) {
+    if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) {
+      return undefined;
+    }
+    const value = property.initializer;
+    switch (property.name.text) {
+      case 'statusCode':
+        options.push(`status: ${value.getText()}`);
+        break;
+      case 'body':
+        options.push(
+          ts.isStringLiteralLike(value)
+            ? `body: ${value.getText()}`
+            : `json: ${value.getText()}`,
+        );
+        break;
+      case 'headers':
+        options.push(`headers: ${value.getText()}`);
+        break;
+      case 'fixture':
+        if (!ts.isStringLiteralLike(value)) {
+          return undefined;
+        }
+        // like Cypress, a fixture without extension is a JSON file
+        options.push(
+          `path: '${join(fixturesFolder, extname(value.text) ? value.text : `${value.text}.json`)}'`,
+        );
+        break;
+      default:
+        return undefined;
+    }
+  }
+  return `{ ${options.join(', ')} }`;
+}
+
+/**
+ * `page.route` for a `cy.intercept` stubbing a response. Intercepts only
+ * spying on requests, to `cy.wait` for them, are not converted.
+ */
+function convertIntercept(
+  [intercept, ...rest]: ChainLink[],
+  fixturesFolder: string,
+): string[] | undefined {
+  if (rest.some((link) => link.name !== 'as')) {
+    return undefined;
+  }
+  const nodes = [...intercept.nodes];
+  const method =
+    nodes.length === 3 &&
+    ts.isStringLiteralLike(nodes[0]) &&
+    httpMethods.includes(nodes[0].text.toUpperCase())
+      ? nodes.shift()
+      : undefined;
+  const [url, response] = nodes;
+  if (nodes.length !== 2 || !url || !response) {
+    return undefined;
+  }
+
+  let pattern: string;
+  if (ts.isStringLiteralLike(url)) {
+    // Cypress matches paths against the whole URL
+    pattern = url.text.startsWith('/') ? `'**${url.text}'` : url.getText();
+  } else if (ts.isRegularExpressionLiteral(url)) {
+    pattern = url.getText();
+  } else {
+    return undefined;
+  }
+  const fulfill = convertStaticResponse(response, fixturesFolder);
+  if (!fulfill) {
+    return undefined;
+  }
+  if (method && ts.isStringLiteralLike(method)) {
+    return [
+      `await page.route(${pattern}, (route) =>
+  route.request().method() === '${method.text.toUpperCase()}'
+    ? route.fulfill(${fulfill})
+    : route.fallback(),
+);`,
+    ];
+  }
+  return [
+    `await page.route(${pattern}, (route) => route.fulfill(${fulfill}));`,
+  ];
+}
+
+/**
+ * Playwright statements of a Cypress command chain, if it can be converted.
+ */
+function convertChain(
+  links: ChainLink[],
+  fixturesFolder: string,
+): string[] | undefined {
+  const [{ name, args, nodes }, ...rest] = links;
+  const single = (statement: string) => (rest.length ? undefined : [statement]);
+
+  switch (name) {
+    case 'visit':
+      return args.length === 1
+        ? single(`await page.goto(${args[0]});`)
+        : undefined;
+    case 'reload':
+      return args.length ? undefined : single('await page.reload();');
+    case 'go': {
+      const direction = nodes[0];
+      if (!direction || !ts.isStringLiteralLike(direction)) {
+        return undefined;
+      }
+      const method = { back: 'goBack', forward: 'goForward' }[direction.text];
+      return method ? single(`await page.${method}();`) : undefined;
+    }
+    case 'viewport':
+      return args.length === 2 && nodes.every(ts.isNumericLiteral)
+        ? single(
+            `await page.setViewportSize({ width: ${args[0]}, height: ${args[1]} });`,
+          )
+        : undefined;
+    case 'wait':
+      return nodes[0] && ts.isNumericLiteral(nodes[0])
+        ? single(`await page.waitForTimeout(${args[0]});`)
+        : undefined;
+    case 'intercept':
+      return convertIntercept(links, fixturesFolder);
+    case 'url':
+    case 'title': {
+      if (args.length || !rest.length) {
+        return undefined;
+      }
+      const assertions = rest.map((link) =>
+        link.name === 'should' || link.name === 'and'
+          ? convertAssertion(name, 'page', link)
+          : undefined,
+      );
+      return assertions.every((assertion) => assertion !== undefined)
+        ? (assertions as string[])
+        : undefined;
+    }
+    case 'get':
+      // aliases such as cy.get('@user') have no Playwright equivalent
+      return args.length === 1 &&
+        !(ts.isStringLiteralLike(nodes[0]) && nodes[0].text.startsWith('@'))
+        ? convertLocatorChain(`page.locator(${args[0]})`, rest)
+        : undefined;
+    case 'contains':
+      if (args.length === 1) {
+        return convertLocatorChain(`page.getByText(${args[0]})`, rest);
+      }
+      return args.length === 2
+        ? convertLocatorChain(
+            `page.locator(${args[0]}, { hasText: ${args[1]} })`,
+            rest,
+          )
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Playwright equivalent of `this.timeout(ms)` or `this.skip()` in a Mocha
+ * test or hook.
+ */
+function convertMochaContext(expression: ts.Expression): string | undefined {
+  if (
+    !ts.isCallExpression(expression) ||
+    !ts.isPropertyAccessExpression(expression.expression) ||
+    expression.expression.expression.kind !== ts.SyntaxKind.ThisKeyword
+  ) {
+    return undefined;
+  }
+  const args = expression.arguments.map((arg) => arg.getText());
+  switch (expression.expression.name.text) {
+    case 'timeout':
+      return args.length === 1 ? `test.setTimeout(${args[0]})` : undefined;
+    case 'skip':
+      return args.length ? undefined : 'test.skip()';
+    default:
+      return undefined;
+  }
+}
+
+function getIndentation(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+  return sourceFile.text.slice(lineStart, start).match(/^\s*/)?.[0] ?? '';
+}
+
+/**
+ * Name of a Mocha function called by `describe(...)` or `it.only(...)`, with
+ * its modifier.
+ */
+function getTestFunction(
+  call: ts.CallExpression,
+): { name: string; modifier?: string } | undefined {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee) && testFunctions[callee.text]) {
+    return { name: callee.text };
+  }
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    testFunctions[callee.expression.text] &&
+    ['only', 'skip'].includes(callee.name.text)
+  ) {
+    return { name: callee.expression.text, modifier: callee.name.text };
+  }
+  return undefined;
+}
+
+/**
+ * Converts a Cypress spec to Playwright: Mocha functions become `test`
+ * functions, and Cypress commands become `page` calls and `expect`
+ * assertions. Commands that cannot be converted are kept, with a
+ * `TODO(migrate)` marker.
+ */
+export function convertSpec(
+  fileName: string,
+  content: string,
+  fixturesFolder: string,
+): ConvertedSpec {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  const edits: TextEdit[] = [];
+  const unconverted: UnconvertedCall[] = [];
+  let converted = 0;
+
+  const markTodo = (statement: ts.Node, message: string) => {
+    const pos = statement.getStart(sourceFile);
+    edits.push({
+      pos,
+      end: pos,
+      text: `${todo} ${message}\n${getIndentation(sourceFile, statement)}`,
+    });
+  };
+  const markUnconverted = (
+    statement: ts.Node,
+    call: ts.Node,
+    message: string,
+  ) => {
+    markTodo(statement, message);
+    unconverted.push({
+      line:
+        sourceFile.getLineAndCharacterOfPosition(call.getStart(sourceFile))
+          .line + 1,
+      code: call.getText(sourceFile),
+    });
+  };
+
+  // Callbacks of tests and hooks, made async by the conversion
+  const callbacks = new Map<ts.Node, Scope>();
+
+  const visit = (node: ts.Node, parentScope: Scope) => {
+    // commands in other functions have no `page` and cannot be awaited
+    const scope = ts.isFunctionLike(node) ? callbacks.get(node) : parentScope;
+
+    if (ts.isExpressionStatement(node)) {
+      const links = getCypressChain(node.expression);
+      if (links) {
+        const statements =
+          scope === 'page' ? convertChain(links, fixturesFolder) : undefined;
+        if (statements) {
+          const indentation = getIndentation(sourceFile, node);
+          edits.push({
+            pos: node.getStart(sourceFile),
+            end: node.end,
+            text: statements.join('\n').replace(/\n/g, `\n${indentation}`),
+          });
+          converted++;
+        } else {
+          markUnconverted(
+            node,
+            node.expression,
+            'convert this Cypress command to Playwright',
+          );
+        }
+        return;
+      }
+
+      const mochaCall = scope && convertMochaContext(node.expression);
+      if (mochaCall) {
+        edits.push({
+          pos: node.expression.getStart(sourceFile),
+          end: node.expression.end,
+          text: mochaCall,
+        });
+        return;
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      const links = getCypressChain(node);
+      if (links && !ts.isPropertyAccessExpression(node.parent)) {
+        // a command whose result is used, such as `const a = cy.get('a')`
+        let statement: ts.Node = node;
+        while (
+          statement.parent &&
+          !ts.isBlock(statement.parent) &&
+          !ts.isSourceFile(statement.parent)
+        ) {
+          statement = statement.parent;
+        }
+        markUnconverted(
+          statement,
+          node,
+          'use the result of this Cypress command',
+        );
+        return;
+      }
+
+      const testFunction = getTestFunction(node);
+      if (testFunction) {
+        const { name, modifier } = testFunction;
+        const callback = node.arguments[node.arguments.length - 1];
+        const isHook =
+          callback &&
+          (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback)) &&
+          name !== 'describe' &&
+          name !== 'context';
+        // The marker and the new name are a single edit, as they start at
+        // the same position
+        const marker =
+          isHook &&
+          !pageFunctions.includes(name) &&
+          callback.body.getText(sourceFile).includes('cy.')
+            ? `${todo} ${testFunctions[name]} has no page, create one with browser.newPage() or use a beforeEach\n${getIndentation(sourceFile, node)}`
+            : '';
+        edits.push({
+          pos: node.expression.getStart(sourceFile),
+          end: node.expression.end,
+          text: `${marker}${
+            modifier
+              ? `${testFunctions[name]}.${modifier}`
+              : testFunctions[name]
+          }`,
+        });
+        if (isHook) {
+          // `page` only exists in tests and their hooks
+          const hasPage = pageFunctions.includes(name);
+          const fixtures = hasPage ? '{ page }' : '';
+          callbacks.set(callback, hasPage ? 'page' : 'hook');
+          // functions keep their `this`, arrow functions stay arrows
+          edits.push(
+            ts.isArrowFunction(callback)
+              ? {
+                  pos: callback.getStart(sourceFile),
+                  end: callback.equalsGreaterThanToken.getStart(sourceFile),
+                  text: `async (${fixtures}) `,
+                }
+              : {
+                  pos: callback.getStart(sourceFile),
+                  end: callback.body.getStart(sourceFile),
+                  text: `async function (${fixtures}) `,
+                },
+          );
+        }
+      }
+    }
+    ts.forEachChild(node, (child) => visit(child, scope));
+  };
+  visit(sourceFile, undefined);
+
+  const body = applyTextEdits(content, edits).replace(
+    /^\/\/\/ <reference types="cypress" \/>\r?\n(\r?\n)?/m,
+    '',
+  );
+  return {
+    content: `import { expect, test } from '@playwright/test';\n\n${body}`,
+    converted,
+    unconverted,
+  };
+}
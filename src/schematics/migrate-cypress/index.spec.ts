@@ -0,0 +1,340 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const collectionPath = 'lib/schematics/collection.json';
+
+const spec = `/// <reference types="cypress" />
+
+describe('Todo', () => {
+  beforeEach(() => {
+    cy.intercept('GET', '/api/todos', { fixture: 'todos' }).as('todos');
+    cy.visit('/');
+  });
+
+  it('should add a todo', () => {
+    cy.get('[data-test=new-todo]').type('Buy milk').should('have.value', 'Buy milk');
+    cy.contains('button', 'Add').click();
+    cy.get('li').should('have.length', 3).last().should('contain', 'Buy milk');
+    cy.url().should('include', '/todos?');
+  });
+
+  it.skip('should filter todos', function () {
+    cy.get('input').type('milk{enter}');
+    cy.wait('@todos');
+    cy.get('.todo').then(($todos) => {
+      expect($todos).to.have.length(1);
+    });
+  });
+});
+`;
+
+describe('migrate-cypress', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create(
+      '/angular.json',
+      JSON.stringify(
+        {
+          projects: {
+            shop: {
+              projectType: 'application',
+              root: 'projects/shop',
+              architect: {
+                e2e: {
+                  builder: '@cypress/schematic:cypress',
+                  options: {
+                    devServerTarget: 'shop:serve',
+                    watch: true,
+                    headless: false,
+                  },
+                  configurations: {
+                    production: { devServerTarget: 'shop:serve:production' },
+                  },
+                },
+                'playwright-e2e': {
+                  builder: 'playwright-ng-schematics:playwright',
+                  options: {
+                    config: 'playwright.config.ts',
+                    devServerTarget: 'shop:serve',
+                  },
+                },
+              },
+            },
+          },
+        },
+        null,
+        2,
+      ),
+    );
+    tree.create(
+      '/package.json',
+      JSON.stringify(
+        { scripts: { e2e: 'ng run shop:playwright-e2e' } },
+        null,
+        2,
+      ),
+    );
+    tree.create(
+      '/projects/shop/cypress.config.ts',
+      `import { defineConfig } from 'cypress';
+
+export default defineConfig({
+  viewportWidth: 1280,
+  e2e: {
+    baseUrl: 'http://localhost:4300',
+  },
+});
+`,
+    );
+    tree.create(
+      '/projects/shop/playwright.config.ts',
+      `import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './e2e',
+  use: {
+    baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4200',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+});
+`,
+    );
+    tree.create('/projects/shop/cypress/e2e/todo.cy.ts', spec);
+    tree.create('/projects/shop/cypress/e2e/admin/users.cy.ts', '');
+    tree.create('/projects/shop/cypress/support/commands.ts', '');
+  });
+
+  it('should convert the specs', async () => {
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      result.files.filter((file) => file.startsWith('/projects/shop/e2e/')),
+    ).toEqual([
+      '/projects/shop/e2e/todo.spec.ts',
+      '/projects/shop/e2e/admin/users.spec.ts',
+    ]);
+    expect(
+      result.readContent('/projects/shop/e2e/todo.spec.ts'),
+    ).toMatchSnapshot();
+  });
+
+  it('should mark before and after hooks using Cypress', async () => {
+    tree.overwrite(
+      '/projects/shop/cypress/e2e/admin/users.cy.ts',
+      `describe('Users', () => {
+  before(() => {
+    cy.visit('/');
+  });
+
+  after(function () {
+    cy.clearCookies();
+  });
+});
+`,
+    );
+
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/e2e/admin/users.spec.ts'),
+    ).toBe(`import { expect, test } from '@playwright/test';
+
+test.describe('Users', () => {
+  // TODO(migrate): test.beforeAll has no page, create one with browser.newPage() or use a beforeEach
+  test.beforeAll(async () => {
+    // TODO(migrate): convert this Cypress command to Playwright
+    cy.visit('/');
+  });
+
+  // TODO(migrate): test.afterAll has no page, create one with browser.newPage() or use a beforeEach
+  test.afterAll(async function () {
+    // TODO(migrate): convert this Cypress command to Playwright
+    cy.clearCookies();
+  });
+});
+`);
+  });
+
+  it('should only convert commands of tests and hooks with a page', async () => {
+    tree.overwrite(
+      '/projects/shop/cypress/e2e/admin/users.cy.ts',
+      `function login() {
+  cy.visit('/login');
+}
+
+describe('Users', () => {
+  it('should list users', () => {
+    login();
+    ['/users', '/groups'].forEach((path) => cy.visit(path));
+    cy.visit('/users');
+  });
+});
+`,
+    );
+
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/e2e/admin/users.spec.ts'),
+    ).toBe(`import { expect, test } from '@playwright/test';
+
+function login() {
+  // TODO(migrate): convert this Cypress command to Playwright
+  cy.visit('/login');
+}
+
+test.describe('Users', () => {
+  test('should list users', async ({ page }) => {
+    login();
+    // TODO(migrate): use the result of this Cypress command
+    ['/users', '/groups'].forEach((path) => cy.visit(path));
+    await page.goto('/users');
+  });
+});
+`);
+  });
+
+  it('should keep the Mocha context of function callbacks', async () => {
+    tree.overwrite(
+      '/projects/shop/cypress/e2e/admin/users.cy.ts',
+      `describe('Users', () => {
+  it('should export users', function () {
+    this.timeout(60000);
+    if (Cypress.browser.name === 'firefox') {
+      this.skip();
+    }
+    cy.visit('/users');
+  });
+});
+`,
+    );
+
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/e2e/admin/users.spec.ts'),
+    ).toBe(`import { expect, test } from '@playwright/test';
+
+test.describe('Users', () => {
+  test('should export users', async function ({ page }) {
+    test.setTimeout(60000);
+    if (Cypress.browser.name === 'firefox') {
+      test.skip();
+    }
+    await page.goto('/users');
+  });
+});
+`);
+  });
+
+  it('should report the calls left to convert', async () => {
+    const messages: string[] = [];
+    runner.logger.subscribe(({ message }) => messages.push(message));
+
+    await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        'Migrated 2 specs: 6 Cypress calls converted, 3 left with a TODO(migrate) marker.',
+        "  - projects/shop/cypress/e2e/todo.cy.ts:17: cy.get('input').type('milk{enter}')",
+        "  - projects/shop/cypress/e2e/todo.cy.ts:18: cy.wait('@todos')",
+        "  - projects/shop/cypress/e2e/todo.cy.ts:19: cy.get('.todo').then(($todos) => {",
+      ]),
+    );
+  });
+
+  it('should move the devServerTarget to the Playwright builder', async () => {
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    const angularJson = JSON.parse(result.readContent('/angular.json'));
+    expect(angularJson.projects.shop.architect).toEqual({
+      e2e: {
+        builder: 'playwright-ng-schematics:playwright',
+        options: {
+          config: 'playwright.config.ts',
+          devServerTarget: 'shop:serve',
+        },
+        configurations: {
+          production: { devServerTarget: 'shop:serve:production' },
+        },
+      },
+    });
+    expect(JSON.parse(result.readContent('/package.json')).scripts.e2e).toBe(
+      'ng run shop:e2e',
+    );
+  });
+
+  it('should migrate the target of an Nx project', async () => {
+    tree.delete('/angular.json');
+    tree.create('/nx.json', '{}');
+    tree.create(
+      '/projects/shop/project.json',
+      JSON.stringify({
+        name: 'shop',
+        projectType: 'application',
+        targets: {
+          e2e: {
+            executor: '@nx/cypress:cypress',
+            options: {
+              cypressConfig: 'projects/shop/cypress.config.ts',
+              devServerTarget: 'shop:serve',
+            },
+          },
+          'playwright-e2e': {
+            executor: 'playwright-ng-schematics:playwright',
+            options: { config: 'playwright.config.ts' },
+          },
+        },
+      }),
+    );
+    tree.overwrite(
+      '/package.json',
+      JSON.stringify({ scripts: { e2e: 'nx run shop:playwright-e2e' } }),
+    );
+
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      JSON.parse(result.readContent('/projects/shop/project.json')).targets,
+    ).toEqual({
+      e2e: {
+        executor: 'playwright-ng-schematics:playwright',
+        options: {
+          config: 'playwright.config.ts',
+          devServerTarget: 'shop:serve',
+        },
+        configurations: {},
+      },
+    });
+    expect(JSON.parse(result.readContent('/package.json')).scripts.e2e).toBe(
+      'nx run shop:e2e',
+    );
+  });
+
+  it('should migrate the baseUrl and viewport', async () => {
+    const result = await runner.runSchematic('migrate-cypress', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/playwright.config.ts'),
+    ).toContain(`  use: {
+    baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4300',
+    viewport: { width: 1280, height: 660 },
+  },`);
+  });
+
+  it('should fail without a Playwright config', async () => {
+    tree.delete('/projects/shop/playwright.config.ts');
+
+    await expect(
+      runner.runSchematic('migrate-cypress', {}, tree),
+    ).rejects.toThrow(
+      'No Playwright config found, run "ng add playwright-ng-schematics" first.',
+    );
+  });
+});
@@ -0,0 +1,424 @@
+import { dirname, join, relative } from 'node:path/posix';
+import {
+  chain,
+  noop,
+  type Rule,
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+} from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+import { findConfigObject, getProperty } from '../../utils/config-object';
+import { modifyJsonFile, readJsonFile } from '../utils/json-file';
+import {
+  applyTextEdits,
+  findPlaywrightConfig,
+  getTestDir,
+  insertElement,
+  parseConfig,
+  setProperty,
+  type TextEdit,
+} from '../utils/playwright-config';
+import {
+  type AngularProject,
+  type AngularTarget,
+  builderName,
+  getPlaywrightTargets,
+  getProject,
+  getTargetsLocation,
+} from '../utils/workspace';
+import { convertSpec, type UnconvertedCall } from './convert';
+
+interface MigrateCypressOptions {
+  /** Project whose Cypress tests are migrated */
+  project?: string;
+}
+
+/**
+ * Settings of `cypress.config.ts` migrated to Playwright.
+ */
+interface CypressConfig {
+  /** Folder of the config, which its paths are relative to */
+  folder: string;
+  baseUrl?: string;
+  specPatterns: string[];
+  viewport?: { width: number; height: number };
+  fixturesFolder: string;
+}
+
+/**
+ * What the migration of the specs converted, for the final report.
+ */
+interface MigrationReport {
+  specs: string[];
+  converted: number;
+  unconverted: (UnconvertedCall & { file: string })[];
+}
+
+/**
+ * Builders of `@cypress/schematic` and executors of `@nx/cypress`.
+ */
+const cypressBuilders = ['@cypress/schematic:cypress', '@nx/cypress:cypress'];
+
+const cypressConfigFiles = [
+  'cypress.config.ts',
+  'cypress.config.js',
+  'cypress.config.mjs',
+  'cypress.config.cjs',
+];
+
+const defaultSpecPattern = 'cypress/e2e/**/*.cy.{js,jsx,ts,tsx}';
+
+/**
+ * The `e2e` target of Cypress, or its first end-to-end target.
+ */
+function getCypressTarget(
+  project: AngularProject,
+): [string, AngularTarget] | undefined {
+  const targets = Object.entries(project.architect ?? project.targets ?? {})
+    .filter(([, target]) =>
+      cypressBuilders.includes(target.builder ?? target.executor),
+    )
+    .filter(([, target]) => target.options?.testingType !== 'component');
+  return targets.find(([name]) => name === 'e2e') ?? targets[0];
+}
+
+function findCypressConfig(
+  tree: Tree,
+  root: string,
+  target?: AngularTarget,
+): string | undefined {
+  // `cypressConfig` of @nx/cypress is relative to the workspace root
+  const configFile =
+    target?.options?.configFile ?? target?.options?.cypressConfig;
+  const candidates =
+    typeof configFile === 'string' ? [configFile] : cypressConfigFiles;
+  return candidates
+    .flatMap((file) => [join(root, file), file])
+    .find((file) => tree.exists(file));
+}
+
+function readCypressConfig(tree: Tree, configFile: string): CypressConfig {
+  const config = findConfigObject(parseConfig(tree, configFile));
+  if (!config) {
+    throw new SchematicsException(
+      `Could not find the object given to defineConfig in ${configFile}.`,
+    );
+  }
+  const e2e = getProperty(config, 'e2e')?.initializer;
+  // e2e settings override the global ones
+  const read = (name: string) =>
+    (e2e && ts.isObjectLiteralExpression(e2e)
+      ? getProperty(e2e, name)?.initializer
+      : undefined) ?? getProperty(config, name)?.initializer;
+  const readString = (name: string) => {
+    const value = read(name);
+    return value && ts.isStringLiteralLike(value) ? value.text : undefined;
+  };
+  const readNumber = (name: string) => {
+    const value = read(name);
+    return value && ts.isNumericLiteral(value) ? Number(value.text) : undefined;
+  };
+
+  const specPattern = read('specPattern');
+  const specPatterns =
+    specPattern && ts.isArrayLiteralExpression(specPattern)
+      ? specPattern.elements
+          .filter(ts.isStringLiteralLike)
+          .map((item) => item.text)
+      : [readString('specPattern') ?? defaultSpecPattern];
+  const width = readNumber('viewportWidth');
+  const height = readNumber('viewportHeight');
+  const folder = dirname(configFile);
+  return {
+    folder,
+    baseUrl: readString('baseUrl'),
+    specPatterns,
+    // Cypress defaults to 1000x660
+    viewport:
+      width !== undefined || height !== undefined
+        ? { width: width ?? 1000, height: height ?? 660 }
+        : undefined,
+    fixturesFolder: join(
+      folder,
+      readString('fixturesFolder') ?? 'cypress/fixtures',
+    ),
+  };
+}
+
+/**
+ * Regular expression of a glob such as `cypress/e2e/**\/*.cy.{js,ts}`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (pattern.startsWith('**/', index)) {
+      source += '(?:.*/)?';
+      index += 2;
+    } else if (pattern.startsWith('**', index)) {
+      source += '.*';
+      index += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',') {
+      source +=
+        pattern.lastIndexOf('{', index) > pattern.lastIndexOf('}', index)
+          ? '|'
+          : ',';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Folder of a glob before its first wildcard, `cypress/e2e` for
+ * `cypress/e2e/**\/*.cy.ts`.
+ */
+function getGlobBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex((segment) => /[*?{[]/.test(segment));
+  return segments.slice(0, index === -1 ? -1 : index).join('/');
+}
+
+/**
+ * Cypress specs, with their path in the Playwright tests folder.
+ */
+function findSpecs(
+  tree: Tree,
+  cypress: CypressConfig,
+): { file: string; target: string }[] {
+  const specs = new Map<string, string>();
+  for (const pattern of cypress.specPatterns) {
+    const regExp = globToRegExp(pattern);
+    const base = join(cypress.folder, getGlobBase(pattern));
+    tree.getDir(base).visit((path) => {
+      const file = path.replace(/^\//, '');
+      if (!specs.has(file) && regExp.test(relative(cypress.folder, file))) {
+        const target = relative(base, file);
+        specs.set(
+          file,
+          /\.cy\.\w+$/.test(target)
+            ? target.replace(/\.cy\.(\w+)$/, '.spec.$1')
+            : target.replace(/\.(\w+)$/, '.spec.$1'),
+        );
+      }
+    });
+  }
+  return [...specs].map(([file, target]) => ({ file, target }));
+}
+
+/**
+ * Replaces the Cypress target by the Playwright builder, with the same
+ * `devServerTarget`, and removes the Playwright target ng-add added next to
+ * it.
+ */
+function migrateTarget(
+  projectName: string,
+  project: AngularProject,
+  configFile: string,
+): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const cypressTarget = getCypressTarget(project);
+    if (!cypressTarget) {
+      context.logger.info(
+        `No Cypress target in "${projectName}", its targets are left as they are.`,
+      );
+      return tree;
+    }
+    const [targetName, target] = cypressTarget;
+    const { file, path, nx } = getTargetsLocation(tree, projectName, project);
+    const [playwrightTarget] = Object.entries(getPlaywrightTargets(project));
+
+    const devServerTarget = target.options?.devServerTarget;
+    const configurations = Object.fromEntries(
+      Object.entries(target.configurations ?? {})
+        .filter(([, options]) => options.devServerTarget)
+        .map(([name, options]) => [
+          name,
+          { devServerTarget: options.devServerTarget },
+        ]),
+    );
+    modifyJsonFile(tree, file, [...path, targetName], {
+      [nx ? 'executor' : 'builder']: builderName,
+      options: {
+        // relative to the project root
+        config: relative(project.root ?? '', configFile),
+        ...playwrightTarget?.[1].options,
+        ...(devServerTarget ? { devServerTarget } : {}),
+      },
+      configurations: {
+        ...playwrightTarget?.[1].configurations,
+        ...configurations,
+      },
+    });
+    context.logger.info(
+      `Replaced the "${projectName}:${targetName}" target of Cypress by Playwright.`,
+    );
+
+    if (playwrightTarget && playwrightTarget[0] !== targetName) {
+      modifyJsonFile(tree, file, [...path, playwrightTarget[0]], undefined);
+      const cli = nx ? 'nx' : 'ng';
+      const script = `${cli} run ${projectName}:${playwrightTarget[0]}`;
+      const scripts = tree.exists('package.json')
+        ? readJsonFile<{ scripts?: Record<string, string> }>(
+            tree,
+            'package.json',
+          ).scripts
+        : undefined;
+      for (const [name, command] of Object.entries(scripts ?? {})) {
+        if (command === script) {
+          modifyJsonFile(
+            tree,
+            'package.json',
+            ['scripts', name],
+            `${cli} run ${projectName}:${targetName}`,
+          );
+        }
+      }
+    }
+    return tree;
+  };
+}
+
+/**
+ * Sets the `baseURL` and `viewport` of Cypress in the Playwright config.
+ */
+function migrateConfig(configFile: string, cypress: CypressConfig): Rule {
+  return (tree: Tree) => {
+    const sourceFile = parseConfig(tree, configFile);
+    const config = findConfigObject(sourceFile);
+    if (!config) {
+      throw new SchematicsException(
+        `Could not find the object given to defineConfig in ${configFile}.`,
+      );
+    }
+
+    const options: [string, string][] = [];
+    if (cypress.baseUrl) {
+      options.push([
+        'baseURL',
+        `process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? '${cypress.baseUrl}'`,
+      ]);
+    }
+    if (cypress.viewport) {
+      options.push([
+        'viewport',
+        `{ width: ${cypress.viewport.width}, height: ${cypress.viewport.height} }`,
+      ]);
+    }
+    if (!options.length) {
+      return tree;
+    }
+
+    const use = getProperty(config, 'use')?.initializer;
+    let edits: TextEdit[];
+    if (!use) {
+      edits = [
+        insertElement(
+          sourceFile,
+          config,
+          `use: { ${options.map(([name, value]) => `${name}: ${value}`).join(', ')} }`,
+        ),
+      ];
+    } else if (ts.isObjectLiteralExpression(use)) {
+      edits = options.map(([name, value]) =>
+        setProperty(sourceFile, use, name, value),
+      );
+    } else {
+      throw new SchematicsException(
+        `"use" of ${configFile} is not an object, set ${options.map(([name]) => name).join(' and ')} by hand.`,
+      );
+    }
+    tree.overwrite(configFile, applyTextEdits(sourceFile.text, edits));
+    return tree;
+  };
+}
+
+function migrateSpecs(
+  cypress: CypressConfig,
+  testDir: string,
+  report: MigrationReport,
+): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    for (const { file, target } of findSpecs(tree, cypress)) {
+      const spec = join(testDir, target);
+      if (tree.exists(spec)) {
+        context.logger.info(`${spec} already exists, skipping ${file}.`);
+        continue;
+      }
+      const { content, converted, unconverted } = convertSpec(
+        file,
+        tree.readText(file),
+        cypress.fixturesFolder,
+      );
+      tree.create(spec, content);
+      report.specs.push(spec);
+      report.converted += converted;
+      report.unconverted.push(
+        ...unconverted.map((call) => ({ ...call, file })),
+      );
+    }
+    return tree;
+  };
+}
+
+function logReport(report: MigrationReport): Rule {
+  return (_tree: Tree, context: SchematicContext) => {
+    const { logger } = context;
+    logger.info(
+      `Migrated ${report.specs.length} specs: ${report.converted} Cypress calls converted, ${report.unconverted.length} left with a TODO(migrate) marker.`,
+    );
+    for (const { file, line, code } of report.unconverted) {
+      logger.info(`  - ${file}:${line}: ${code.split('\n')[0]}`);
+    }
+    logger.info(
+      'Review the migrated specs, then remove Cypress, its config and specs.',
+    );
+  };
+}
+
+export default function migrateCypress(options: MigrateCypressOptions): Rule {
+  return (tree: Tree, _context: SchematicContext) => {
+    const { name, project } = getProject(tree, options.project) ?? {};
+    const root = project?.root ?? '';
+
+    const cypressConfigFile = findCypressConfig(
+      tree,
+      root,
+      project && getCypressTarget(project)?.[1],
+    );
+    if (!cypressConfigFile) {
+      throw new SchematicsException(
+        `No Cypress config found in ${root || 'the workspace'}.`,
+      );
+    }
+    const configFile = findPlaywrightConfig(tree, project);
+    if (!configFile) {
+      throw new SchematicsException(
+        'No Playwright config found, run "ng add playwright-ng-schematics" first.',
+      );
+    }
+
+    const cypress = readCypressConfig(tree, cypressConfigFile);
+    const report: MigrationReport = {
+      specs: [],
+      converted: 0,
+      unconverted: [],
+    };
+    return chain([
+      name && project ? migrateTarget(name, project, configFile) : noop(),
+      migrateConfig(configFile, cypress),
+      migrateSpecs(cypress, getTestDir(tree, project), report),
+      logReport(report),
+    ]);
+  };
+}
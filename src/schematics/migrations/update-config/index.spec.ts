@@ -0,0 +1,140 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const migrationsPath = 'lib/schematics/migrations.json';
+
+describe('update-config migration', () => {
+  const runner = new SchematicTestRunner('migrations', migrationsPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create(
+      '/angular.json',
+      JSON.stringify({
+        projects: {
+          admin: {
+            root: 'projects/admin',
+            architect: {
+              e2e: {
+                builder: 'playwright-ng-schematics:playwright',
+                options: { config: 'playwright.config.ts' },
+              },
+            },
+          },
+        },
+      }),
+    );
+  });
+
+  it('should read the base URL from PLAYWRIGHT_TEST_BASE_URL', async () => {
+    tree.create(
+      '/projects/admin/playwright.config.ts',
+      `export default defineConfig({
+  use: {
+    baseURL: 'http://localhost:4200',
+  },
+});
+`,
+    );
+
+    const result = await runner.runSchematic('update-config', {}, tree);
+
+    expect(
+      result.readContent('/projects/admin/playwright.config.ts'),
+    ).toContain(
+      "baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4200',",
+    );
+  });
+
+  it('should read an angular.json with comments', async () => {
+    tree.overwrite(
+      '/angular.json',
+      `{
+  // Playwright runs the e2e tests
+  "projects": {
+    "admin": {
+      "root": "projects/admin",
+      "architect": {
+        "e2e": {
+          "builder": "playwright-ng-schematics:playwright",
+          "options": { "config": "playwright.config.ts" },
+        },
+      },
+    },
+  },
+}
+`,
+    );
+    tree.create(
+      '/projects/admin/playwright.config.ts',
+      `export default defineConfig({
+  use: {
+    baseURL: 'http://localhost:4200',
+  },
+});
+`,
+    );
+
+    const result = await runner.runSchematic('update-config', {}, tree);
+
+    expect(
+      result.readContent('/projects/admin/playwright.config.ts'),
+    ).toContain("process.env['PLAYWRIGHT_TEST_BASE_URL']");
+  });
+
+  it('should leave configs already using PLAYWRIGHT_TEST_BASE_URL untouched', async () => {
+    const content = `export default defineConfig({
+  use: {
+    baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4200',
+    // baseURL: 'http://127.0.0.1:3000',
+  },
+});
+`;
+    tree.create('/playwright.config.ts', content);
+
+    const result = await runner.runSchematic('update-config', {}, tree);
+
+    expect(result.readContent('/playwright.config.ts')).toBe(content);
+  });
+
+  it('should leave the baseURL of projects untouched', async () => {
+    tree.create(
+      '/playwright.config.ts',
+      `export default defineConfig({
+  use: {
+    // baseURL: 'http://127.0.0.1:3000',
+    baseURL: 'http://localhost:4200',
+  },
+  projects: [
+    {
+      name: 'api',
+      use: { baseURL: 'http://localhost:3000' },
+    },
+  ],
+});
+`,
+    );
+
+    const result = await runner.runSchematic('update-config', {}, tree);
+
+    expect(
+      result.readContent('/playwright.config.ts'),
+    ).toBe(`export default defineConfig({
+  use: {
+    // baseURL: 'http://127.0.0.1:3000',
+    baseURL: process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? 'http://localhost:4200',
+  },
+  projects: [
+    {
+      name: 'api',
+      use: { baseURL: 'http://localhost:3000' },
+    },
+  ],
+});
+`);
+  });
+});
@@ -0,0 +1,86 @@
+import { join } from 'node:path/posix';
+import type { Rule, SchematicContext, Tree } from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+import { findConfigObject, getProperty } from '../../../utils/config-object';
+import {
+  applyTextEdits,
+  parseConfig,
+  setProperty,
+} from '../../utils/playwright-config';
+import { getPlaywrightTargets, readWorkspace } from '../../utils/workspace';
+
+/**
+ * Playwright config files of the workspace: the `config` option of each
+ * Playwright target, or the default config of its project.
+ */
+function getConfigFiles(tree: Tree): string[] {
+  const files = new Set<string>(['playwright.config.ts']);
+  const json = readWorkspace(tree);
+  if (json) {
+    for (const project of Object.values(json.projects)) {
+      const root = project.root ?? '';
+      for (const target of Object.values(getPlaywrightTargets(project))) {
+        const configs = [
+          target.options ?? {},
+          ...Object.values(target.configurations ?? {}),
+        ].map((options) => options.config);
+        for (const config of [...configs, 'playwright.config.ts']) {
+          if (typeof config === 'string') {
+            files.add(join(root, config));
+            // config used to be relative to the workspace root
+            files.add(config);
+          }
+        }
+      }
+    }
+  }
+  return [...files].filter((file) => tree.exists(file));
+}
+
+/**
+ * Top-level `use` of a config with a hard-coded `baseURL`. The `baseURL` of
+ * projects stays as it is, as it may point to another application.
+ */
+function findHardCodedUse(
+  sourceFile: ts.SourceFile,
+): { use: ts.ObjectLiteralExpression; baseURL: string } | undefined {
+  const config = findConfigObject(sourceFile);
+  const use = config && getProperty(config, 'use')?.initializer;
+  if (!use || !ts.isObjectLiteralExpression(use)) {
+    return undefined;
+  }
+  const baseURL = getProperty(use, 'baseURL')?.initializer;
+  return baseURL && ts.isStringLiteralLike(baseURL)
+    ? { use, baseURL: baseURL.getText(sourceFile) }
+    : undefined;
+}
+
+/**
+ * The builder gives the URL of the application to the tests through
+ * `PLAYWRIGHT_TEST_BASE_URL`, which a hard-coded `baseURL` ignores. That
+ * URL changes with `port: "auto"`, `buildTarget` or `baseUrl`.
+ */
+export default function updateConfig(): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    for (const file of getConfigFiles(tree)) {
+      const sourceFile = parseConfig(tree, file);
+      const hardCoded = findHardCodedUse(sourceFile);
+      if (!hardCoded) {
+        continue;
+      }
+      tree.overwrite(
+        file,
+        applyTextEdits(sourceFile.text, [
+          setProperty(
+            sourceFile,
+            hardCoded.use,
+            'baseURL',
+            `process.env['PLAYWRIGHT_TEST_BASE_URL'] ?? ${hardCoded.baseURL}`,
+          ),
+        ]),
+      );
+      context.logger.info(`Updated the baseURL of ${file}.`);
+    }
+    return tree;
+  };
+}
@@ -0,0 +1,140 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const migrationsPath = 'lib/schematics/migrations.json';
+
+describe('update-e2e-targets migration', () => {
+  const runner = new SchematicTestRunner('migrations', migrationsPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create(
+      '/angular.json',
+      JSON.stringify({
+        projects: {
+          admin: {
+            root: 'projects/admin',
+            architect: {
+              e2e: {
+                builder: 'playwright-ng-schematics:playwright',
+                options: {
+                  config: 'projects/admin/playwright.config.ts',
+                  files: ['projects/admin/e2e/login.spec.ts', 'e2e/other'],
+                },
+                configurations: {
+                  ci: { config: 'projects/admin/playwright.ci.config.ts' },
+                },
+              },
+              cypress: {
+                builder: '@cypress/schematic:cypress',
+                options: { config: 'projects/admin/cypress.config.ts' },
+              },
+            },
+          },
+          shop: {
+            root: '',
+            architect: {
+              e2e: {
+                builder: 'playwright-ng-schematics:playwright',
+                options: { config: 'playwright.config.ts' },
+              },
+            },
+          },
+        },
+      }),
+    );
+  });
+
+  it('should make config and files relative to the project root', async () => {
+    const result = await runner.runSchematic('update-e2e-targets', {}, tree);
+
+    const { admin } = JSON.parse(result.readContent('/angular.json')).projects;
+    expect(admin.architect.e2e.options).toEqual({
+      config: 'playwright.config.ts',
+      files: ['e2e/login.spec.ts', 'e2e/other'],
+    });
+    expect(admin.architect.e2e.configurations.ci.config).toBe(
+      'playwright.ci.config.ts',
+    );
+  });
+
+  it('should leave other targets and root projects untouched', async () => {
+    const result = await runner.runSchematic('update-e2e-targets', {}, tree);
+
+    const { admin, shop } = JSON.parse(
+      result.readContent('/angular.json'),
+    ).projects;
+    expect(admin.architect.cypress.options.config).toBe(
+      'projects/admin/cypress.config.ts',
+    );
+    expect(shop.architect.e2e.options.config).toBe('playwright.config.ts');
+  });
+
+  it('should update the targets of Nx projects', async () => {
+    tree.delete('/angular.json');
+    tree.create('/nx.json', '{}');
+    tree.create(
+      '/apps/admin/project.json',
+      JSON.stringify({
+        name: 'admin',
+        targets: {
+          e2e: {
+            executor: 'playwright-ng-schematics:playwright',
+            options: { config: 'apps/admin/playwright.config.ts' },
+          },
+        },
+      }),
+    );
+
+    const result = await runner.runSchematic('update-e2e-targets', {}, tree);
+
+    const { targets } = JSON.parse(
+      result.readContent('/apps/admin/project.json'),
+    );
+    expect(targets.e2e.options.config).toBe('playwright.config.ts');
+    expect(result.exists('/angular.json')).toBe(false);
+  });
+
+  it('should keep the comments and formatting of angular.json', async () => {
+    tree.overwrite(
+      '/angular.json',
+      `{
+    // Playwright runs the e2e tests
+    "projects": {
+        "admin": {
+            "root": "projects/admin",
+            "architect": {
+                "e2e": {
+                    "builder": "playwright-ng-schematics:playwright",
+                    "options": { "config": "projects/admin/playwright.config.ts" }
+                }
+            }
+        }
+    }
+}
+`,
+    );
+
+    const result = await runner.runSchematic('update-e2e-targets', {}, tree);
+
+    expect(result.readContent('/angular.json')).toBe(`{
+    // Playwright runs the e2e tests
+    "projects": {
+        "admin": {
+            "root": "projects/admin",
+            "architect": {
+                "e2e": {
+                    "builder": "playwright-ng-schematics:playwright",
+                    "options": { "config": "playwright.config.ts" }
+                }
+            }
+        }
+    }
+}
+`);
+  });
+});
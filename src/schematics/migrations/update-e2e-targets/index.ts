@@ -0,0 +1,89 @@
+import type { JsonObject } from '@angular-devkit/core';
+import type { Rule, SchematicContext, Tree } from '@angular-devkit/schematics';
+import { modifyJsonFile } from '../../utils/json-file';
+import {
+  getPlaywrightTargets,
+  getTargetsLocation,
+  readWorkspace,
+} from '../../utils/workspace';
+
+/**
+ * Strips the project root from a workspace-relative path.
+ */
+function toProjectPath(path: string, root: string): string {
+  return path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+}
+
+/**
+ * Updated `config` and `files` of target options, by option name.
+ */
+function updateOptions(options: JsonObject, root: string): JsonObject {
+  const updated: JsonObject = {};
+  if (typeof options.config === 'string') {
+    const config = toProjectPath(options.config, root);
+    if (config !== options.config) {
+      updated.config = config;
+    }
+  }
+  const previousFiles = options.files;
+  if (Array.isArray(previousFiles)) {
+    const files = previousFiles.map((file) =>
+      typeof file === 'string' ? toProjectPath(file, root) : file,
+    );
+    if (files.some((file, index) => file !== previousFiles[index])) {
+      updated.files = files;
+    }
+  }
+  return updated;
+}
+
+/**
+ * The builder resolves `config` and `files` relative to the project root
+ * since 22.1.0, they used to be relative to the workspace root.
+ */
+export default function updateE2eTargets(): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const json = readWorkspace(tree);
+    for (const [projectName, project] of Object.entries(json?.projects ?? {})) {
+      const root = project.root?.replace(/\/+$/, '');
+      if (!root) {
+        continue;
+      }
+      const location = getTargetsLocation(tree, projectName, project);
+      for (const [targetName, target] of Object.entries(
+        getPlaywrightTargets(project),
+      )) {
+        const targetPath = [...location.path, targetName];
+        const options: [string[], JsonObject][] = [
+          [['options'], target.options ?? {}],
+          ...Object.entries(target.configurations ?? {}).map(
+            ([name, configuration]): [string[], JsonObject] => [
+              ['configurations', name],
+              configuration,
+            ],
+          ),
+        ];
+        let changed = false;
+        for (const [optionsPath, values] of options) {
+          for (const [name, value] of Object.entries(
+            updateOptions(values, root),
+          )) {
+            modifyJsonFile(
+              tree,
+              location.file,
+              [...targetPath, ...optionsPath, name],
+              value,
+            );
+            changed = true;
+          }
+        }
+        if (changed) {
+          context.logger.info(
+            `Made the paths of "${projectName}:${targetName}" relative to ${root}.`,
+          );
+        }
+      }
+    }
+    return tree;
+  };
+}
@@ -1,16 +1,21 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import type { JsonObject } from '@angular-devkit/core';
+import { HostTree } from '@angular-devkit/schematics';
 import {
   SchematicTestRunner,
-  type UnitTestTree,
+  UnitTestTree,
 } from '@angular-devkit/schematics/testing';
+import { pinnedPlaywrightVersion } from './playwright-version';
 
 const collectionPath = 'lib/schematics/collection.json';
+const realFetch = global.fetch;
 
 describe('ng-add', () => {
   const runner = new SchematicTestRunner('schematics', collectionPath);
   const npmResponse = jest
     .fn()
-    .mockResolvedValue({ 'dist-tags': { latest: '1.2.3' } });
+    .mockResolvedValue({ 'dist-tags': { latest: '1.70.0' } });
   let appTree: UnitTestTree;
 
   beforeEach(async () => {
@@ -26,7 +31,9 @@ describe('ng-add', () => {
   });
 
   it('should add "e2e" to angular', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
@@ -37,7 +44,9 @@ describe('ng-add', () => {
   });
 
   it('should add "playwright-ng-schematics" to schematicCollections', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
@@ -49,7 +58,9 @@ describe('ng-add', () => {
   });
 
   it('should not overwrite existing schematicCollections', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
     const angularJson = appTree.readJson('/angular.json') as JsonObject;
     appTree.overwrite(
       './angular.json',
@@ -71,7 +82,9 @@ describe('ng-add', () => {
   });
 
   it('should add npm script', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
@@ -80,7 +93,9 @@ describe('ng-add', () => {
   });
 
   it('should update .gitignore', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
@@ -89,28 +104,528 @@ describe('ng-add', () => {
   });
 
   it('should add files and update devDependencies', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({ json: npmResponse });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
     expect(tree.files).toContain('/playwright.config.ts');
     expect(tree.files).toContain('/e2e/tsconfig.json');
     expect(tree.files).toContain('/e2e/example.spec.ts');
+    expect(JSON.parse(tree.readContent('/e2e/tsconfig.json')).extends).toBe(
+      '../tsconfig.json',
+    );
 
     const packageJSON = JSON.parse(tree.readContent('/package.json'));
-    expect(packageJSON.devDependencies['@playwright/test']).toEqual('1.2.3');
+    expect(packageJSON.devDependencies['@playwright/test']).toEqual('1.70.0');
     // check that the dependency is added in the correct place
     expect(Object.keys(packageJSON.devDependencies)).toEqual(
       Object.keys(packageJSON.devDependencies).sort(),
     );
   });
 
-  it(`should install latest if can't fetch version from npm`, async () => {
-    global.fetch = jest.fn().mockRejectedValueOnce({});
+  it(`should install the pinned version if can't fetch version from npm`, async () => {
+    global.fetch = jest.fn().mockRejectedValueOnce(new Error('offline'));
 
     const tree = await runner.runSchematic('ng-add', {}, appTree);
 
     const packageJSON = JSON.parse(tree.readContent('/package.json'));
-    expect(packageJSON.devDependencies['@playwright/test']).toEqual('latest');
+    expect(packageJSON.devDependencies['@playwright/test']).toEqual(
+      pinnedPlaywrightVersion,
+    );
+  });
+
+  it('should install the given playwrightVersion', async () => {
+    global.fetch = jest.fn();
+
+    const tree = await runner.runSchematic(
+      'ng-add',
+      { playwrightVersion: '1.64.2' },
+      appTree,
+    );
+
+    const packageJSON = JSON.parse(tree.readContent('/package.json'));
+    expect(packageJSON.devDependencies['@playwright/test']).toEqual('1.64.2');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  describe('with a registry in .npmrc', () => {
+    let server: Server;
+    let requests: IncomingMessage[];
+    let registryEnv: Record<string, string | undefined>;
+
+    beforeEach(async () => {
+      requests = [];
+      server = createServer((request, response) => {
+        requests.push(request);
+        response.setHeader('content-type', 'application/json');
+        response.end(
+          JSON.stringify({
+            'dist-tags': { latest: '1.70.0' },
+            versions: {
+              '1.62.0': { engines: { node: '>=18' } },
+              '1.64.0': { engines: { node: '>=18' } },
+              '1.70.0': { engines: { node: '>=999' } },
+              '1.71.0-beta': {},
+            },
+          }),
+        );
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      appTree.create(
+        '/.npmrc',
+        [
+          `registry=http://127.0.0.1:${port}/npm/`,
+          `//127.0.0.1:${port}/npm/:_authToken=\${PLAYWRIGHT_NG_TEST_TOKEN}`,
+        ].join('\n'),
+      );
+      process.env.PLAYWRIGHT_NG_TEST_TOKEN = 's3cr3t';
+      // npm scripts set the registry of the user through the environment
+      registryEnv = {
+        npm_config_registry: process.env.npm_config_registry,
+        NPM_CONFIG_REGISTRY: process.env.NPM_CONFIG_REGISTRY,
+      };
+      delete process.env.npm_config_registry;
+      delete process.env.NPM_CONFIG_REGISTRY;
+      global.fetch = realFetch;
+    });
+
+    afterEach(async () => {
+      delete process.env.PLAYWRIGHT_NG_TEST_TOKEN;
+      for (const [name, value] of Object.entries(registryEnv)) {
+        if (value !== undefined) {
+          process.env[name] = value;
+        }
+      }
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should install the newest version supported by Node.js', async () => {
+      const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+      const packageJSON = JSON.parse(tree.readContent('/package.json'));
+      expect(packageJSON.devDependencies['@playwright/test']).toEqual('1.64.0');
+      expect(requests[0].url).toBe('/npm/@playwright%2ftest');
+      expect(requests[0].headers.authorization).toBe('Bearer s3cr3t');
+    });
+  });
+
+  it('should generate the config with the default browsers and reporter', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+
+    const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+    const config = tree.readContent('/playwright.config.ts');
+    expect(config).toContain("reporter: 'html',");
+    expect(config).toContain("?? 'http://localhost:4200'");
+    expect(config).toContain("name: 'chromium'");
+    expect(config).toContain("name: 'firefox'");
+    expect(config).toContain("name: 'webkit'");
+    expect(tree.files).not.toContain('/.github/workflows/playwright.yml');
+  });
+
+  it('should generate the config with the selected browsers and reporters', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+
+    const tree = await runner.runSchematic(
+      'ng-add',
+      {
+        browsers: ['chromium', 'mobile-safari', 'msedge'],
+        reporters: ['list', 'junit'],
+      },
+      appTree,
+    );
+
+    const config = tree.readContent('/playwright.config.ts');
+    expect(config).toContain("use: { ...devices['iPhone 12'] },");
+    expect(config).toContain(
+      "use: { ...devices['Desktop Edge'], channel: 'msedge' },",
+    );
+    expect(config).not.toContain("name: 'firefox'");
+    expect(config).toContain(
+      "reporter: [\n    ['list'],\n    ['junit', { outputFile: 'test-results/junit.xml' }],\n  ],",
+    );
+  });
+
+  it('should take the base URL from the serve options', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+    const angularJson = appTree.readJson('/angular.json') as {
+      projects: { sandbox: { architect: { serve: JsonObject } } };
+    };
+    angularJson.projects.sandbox.architect.serve.options = {
+      port: 4300,
+      ssl: true,
+    };
+    appTree.overwrite('/angular.json', JSON.stringify(angularJson));
+
+    const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+    expect(tree.readContent('/playwright.config.ts')).toContain(
+      "?? 'https://localhost:4300'",
+    );
+  });
+
+  it('should refuse Angular versions the builder cannot be loaded with', async () => {
+    const packageJson = JSON.parse(appTree.readContent('/package.json'));
+    packageJson.dependencies['@angular/core'] = '^21.2.0';
+    appTree.overwrite('/package.json', JSON.stringify(packageJson));
+
+    await expect(runner.runSchematic('ng-add', {}, appTree)).rejects.toThrow(
+      'Angular 21 is not supported, Angular 22+ is required.',
+    );
+  });
+
+  it.each([
+    ['github', '/.github/workflows/playwright.yml'],
+    ['gitlab', '/.gitlab-ci.yml'],
+    ['azure', '/azure-pipelines.yml'],
+  ])('should generate a %s workflow', async (ci, workflowFile) => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+
+    const tree = await runner.runSchematic('ng-add', { ci }, appTree);
+
+    const workflow = tree.readContent(workflowFile);
+    expect(workflow).toContain('npm ci');
+    expect(workflow).toContain(
+      'npx playwright install --with-deps chromium firefox webkit',
+    );
+    expect(workflow).toContain('npx ng e2e');
+    expect(workflow).not.toContain('Install package manager');
+  });
+
+  it('should use the package manager of the workspace in the workflow', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+    appTree.create('/pnpm-lock.yaml', '');
+
+    const tree = await runner.runSchematic(
+      'ng-add',
+      { ci: 'github', browsers: ['chromium', 'mobile-chrome', 'msedge'] },
+      appTree,
+    );
+
+    const workflow = tree.readContent('/.github/workflows/playwright.yml');
+    expect(workflow).toContain('run: npm install --global pnpm');
+    expect(workflow).toContain('run: pnpm install --frozen-lockfile');
+    expect(workflow).toContain(
+      'run: pnpm exec playwright install --with-deps chromium msedge',
+    );
+    expect(workflow).toContain('run: pnpm exec ng e2e');
+  });
+
+  describe('when run again', () => {
+    it('should leave the workspace as it is', async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: npmResponse });
+      const firstTree = await runner.runSchematic('ng-add', {}, appTree);
+      firstTree.overwrite('/playwright.config.ts', '// customized');
+      const files = Object.fromEntries(
+        firstTree.files.map((file) => [file, firstTree.readContent(file)]),
+      );
+
+      const tree = await runner.runSchematic('ng-add', {}, firstTree);
+
+      expect(
+        Object.fromEntries(
+          tree.files.map((file) => [file, tree.readContent(file)]),
+        ),
+      ).toEqual(files);
+      expect(
+        tree.readContent('/.gitignore').match(/# Playwright/g),
+      ).toHaveLength(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only add the missing .gitignore entries', async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: npmResponse });
+      appTree.overwrite(
+        '/.gitignore',
+        `${appTree.readContent('/.gitignore')}\n# Playwright\n/test-results/\n`,
+      );
+
+      const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+      const gitignore = tree.readContent('/.gitignore');
+      expect(gitignore.match(/# Playwright/g)).toHaveLength(1);
+      expect(gitignore.match(/\/test-results\//g)).toHaveLength(1);
+      expect(gitignore).toContain('/playwright-report/');
+    });
+
+    it('should log what was changed and skipped', async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: npmResponse });
+      const firstTree = await runner.runSchematic('ng-add', {}, appTree);
+      const logs: string[] = [];
+      runner.logger.subscribe((entry) => logs.push(entry.message));
+
+      await runner.runSchematic('ng-add', {}, firstTree);
+
+      expect(logs).not.toContain('Changed:');
+      expect(logs).toContain('Skipped:');
+      expect(logs).toContain('  - playwright.config.ts: already exists');
+      expect(logs).toContain(
+        '  - angular.json: "sandbox:e2e" already runs Playwright',
+      );
+    });
+  });
+
+  it('should keep the formatting of angular.json and package.json', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: npmResponse });
+    const angularJson = appTree.readJson('/angular.json') as JsonObject;
+    appTree.overwrite('/angular.json', JSON.stringify(angularJson, null, 4));
+    const packageJson = appTree.readContent('/package.json');
+    appTree.overwrite('/package.json', packageJson.replace(/\n/g, '\r\n'));
+
+    const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+    const angularContent = tree.readContent('/angular.json');
+    expect(angularContent).toContain(
+      '\n                "e2e": {\n                    "builder": "playwright-ng-schematics:playwright",',
+    );
+    expect(Object.keys(JSON.parse(angularContent))).toEqual([
+      ...Object.keys(angularJson),
+      'cli',
+    ]);
+    const packageContent = tree.readContent('/package.json');
+    expect(packageContent).not.toMatch(/[^\r]\n/);
+    expect(packageContent).toContain('"e2e": "ng e2e"');
+  });
+
+  describe('in a multi-project workspace', () => {
+    beforeEach(async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: npmResponse });
+      appTree = await runner.runExternalSchematic(
+        '@schematics/angular',
+        'application',
+        { name: 'admin' },
+        appTree,
+      );
+      appTree = await runner.runExternalSchematic(
+        '@schematics/angular',
+        'library',
+        { name: 'ui' },
+        appTree,
+      );
+    });
+
+    it('should only add "e2e" to the first application', async () => {
+      const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+      const angularJSON = JSON.parse(tree.readContent('/angular.json'));
+      expect(angularJSON.projects.sandbox.architect.e2e.builder).toBe(
+        'playwright-ng-schematics:playwright',
+      );
+      expect(angularJSON.projects.admin.architect.e2e).toBeUndefined();
+      expect(angularJSON.projects.ui.architect.e2e).toBeUndefined();
+    });
+
+    it('should add "e2e" to the selected project', async () => {
+      const tree = await runner.runSchematic(
+        'ng-add',
+        { project: 'admin' },
+        appTree,
+      );
+
+      const angularJSON = JSON.parse(tree.readContent('/angular.json'));
+      expect(angularJSON.projects.admin.architect.e2e.options).toEqual({
+        config: 'playwright.config.ts',
+        devServerTarget: 'admin:serve',
+      });
+      expect(angularJSON.projects.sandbox.architect.e2e).toBeUndefined();
+    });
+
+    it('should add files to the selected project root', async () => {
+      const tree = await runner.runSchematic(
+        'ng-add',
+        { project: 'admin' },
+        appTree,
+      );
+
+      expect(tree.files).toContain('/projects/admin/playwright.config.ts');
+      expect(tree.files).toContain('/projects/admin/e2e/example.spec.ts');
+      expect(tree.files).not.toContain('/playwright.config.ts');
+      const tsconfig = JSON.parse(
+        tree.readContent('/projects/admin/e2e/tsconfig.json'),
+      );
+      expect(tsconfig.extends).toBe('../../../tsconfig.json');
+      expect(tree.readContent('/.gitignore')).toContain(
+        '/projects/admin/test-results/',
+      );
+    });
+
+    it('should refuse libraries', async () => {
+      await expect(
+        runner.runSchematic('ng-add', { project: 'ui' }, appTree),
+      ).rejects.toThrow('Project "ui" is a library');
+    });
+
+    it('should refuse unknown projects', async () => {
+      await expect(
+        runner.runSchematic('ng-add', { project: 'unknown' }, appTree),
+      ).rejects.toThrow('Project "unknown" does not exist.');
+    });
+  });
+
+  describe('with an existing "e2e" target', () => {
+    const cypressTarget = { builder: '@cypress/schematic:cypress' };
+
+    beforeEach(() => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: npmResponse });
+      const angularJson = appTree.readJson('/angular.json') as {
+        projects: { sandbox: { architect: JsonObject } };
+      };
+      angularJson.projects.sandbox.architect.e2e = cypressTarget;
+      appTree.overwrite('/angular.json', JSON.stringify(angularJson));
+    });
+
+    it('should add "playwright-e2e" beside it by default', async () => {
+      const tree = await runner.runSchematic('ng-add', {}, appTree);
+
+      const angularJSON = JSON.parse(tree.readContent('/angular.json'));
+      const { architect } = angularJSON.projects.sandbox;
+      expect(architect.e2e).toEqual(cypressTarget);
+      expect(architect['playwright-e2e'].builder).toBe(
+        'playwright-ng-schematics:playwright',
+      );
+      const packageJSON = JSON.parse(tree.readContent('/package.json'));
+      expect(packageJSON.scripts.e2e).toBe('ng run sandbox:playwright-e2e');
+    });
+
+    it('should keep it', async () => {
+      const tree = await runner.runSchematic(
+        'ng-add',
+        { existingE2e: 'keep' },
+        appTree,
+      );
+
+      const angularJSON = JSON.parse(tree.readContent('/angular.json'));
+      const { architect } = angularJSON.projects.sandbox;
+      expect(architect.e2e).toEqual(cypressTarget);
+      expect(architect['playwright-e2e']).toBeUndefined();
+    });
+
+    it('should replace it', async () => {
+      const tree = await runner.runSchematic(
+        'ng-add',
+        { existingE2e: 'replace' },
+        appTree,
+      );
+
+      const angularJSON = JSON.parse(tree.readContent('/angular.json'));
+      const { architect } = angularJSON.projects.sandbox;
+      expect(architect.e2e.builder).toBe('playwright-ng-schematics:playwright');
+      expect(architect['playwright-e2e']).toBeUndefined();
+    });
+  });
+
+  describe('in an Nx workspace', () => {
+    let nxTree: UnitTestTree;
+
+    beforeEach(() => {
+      global.fetch = jest.fn().mockRejectedValue(new Error('offline'));
+      nxTree = new UnitTestTree(new HostTree());
+      nxTree.create('/nx.json', JSON.stringify({}));
+      nxTree.create('/package.json', JSON.stringify({ scripts: {} }));
+      nxTree.create(
+        '/apps/shop/project.json',
+        JSON.stringify({
+          name: 'shop',
+          projectType: 'application',
+          targets: {
+            serve: { executor: '@nx/angular:dev-server', options: {} },
+          },
+        }),
+      );
+      nxTree.create(
+        '/libs/ui/project.json',
+        JSON.stringify({ name: 'ui', projectType: 'library' }),
+      );
+    });
+
+    it('should add a cached "e2e" target to project.json', async () => {
+      const tree = await runner.runSchematic('ng-add', {}, nxTree);
+
+      const projectJSON = JSON.parse(
+        tree.readContent('/apps/shop/project.json'),
+      );
+      expect(projectJSON.targets.e2e).toEqual({
+        executor: 'playwright-ng-schematics:playwright',
+        options: {
+          config: 'playwright.config.ts',
+          devServerTarget: 'shop:serve',
+        },
+        configurations: {
+          production: { devServerTarget: 'shop:serve:production' },
+        },
+        cache: true,
+        inputs: ['default', '^default'],
+        outputs: [
+          '{projectRoot}/test-results',
+          '{projectRoot}/playwright-report',
+        ],
+      });
+      expect(tree.exists('/angular.json')).toBe(false);
+    });
+
+    it('should use the production inputs of nx.json', async () => {
+      nxTree.overwrite(
+        '/nx.json',
+        JSON.stringify({
+          namedInputs: { production: ['default', '!{projectRoot}/e2e/**/*'] },
+        }),
+      );
+
+      const tree = await runner.runSchematic('ng-add', {}, nxTree);
+
+      const projectJSON = JSON.parse(
+        tree.readContent('/apps/shop/project.json'),
+      );
+      expect(projectJSON.targets.e2e.inputs).toEqual([
+        'default',
+        '^production',
+      ]);
+    });
+
+    it('should add files to the project root and an nx script', async () => {
+      const tree = await runner.runSchematic('ng-add', {}, nxTree);
+
+      expect(tree.files).toEqual(
+        expect.arrayContaining([
+          '/apps/shop/playwright.config.ts',
+          '/apps/shop/e2e/example.spec.ts',
+        ]),
+      );
+      const packageJSON = JSON.parse(tree.readContent('/package.json'));
+      expect(packageJSON.scripts.e2e).toBe('nx run shop:e2e');
+    });
+
+    it('should refuse libraries', async () => {
+      await expect(
+        runner.runSchematic('ng-add', { project: 'ui' }, nxTree),
+      ).rejects.toThrow(
+        'Project "ui" is a library, Playwright can only be added to applications.',
+      );
+    });
   });
 });
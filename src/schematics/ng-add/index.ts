@@ -1,10 +1,13 @@
 import {
   apply,
+  applyTemplates,
   chain,
+  forEach,
   mergeWith,
   move,
   type Rule,
   type SchematicContext,
+  SchematicsException,
   type Tree,
   url,
 } from '@angular-devkit/schematics';
@@ -12,153 +15,584 @@ import {
   NodePackageInstallTask,
   RunSchematicTask,
 } from '@angular-devkit/schematics/tasks';
+import { loadDeviceBrowsers } from '../../utils/browsers';
+import { getDependenciesInput } from '../../utils/nx-inputs';
+import {
+  getPackageManager,
+  getPackageManagerExecCommand,
+  getPackageManagerInstallCommand,
+  type PackageManager,
+  type WorkspaceFiles,
+} from '../../utils/package-manager';
+import { modifyJsonFile, readJsonFile } from '../utils/json-file';
+import {
+  browserProjects,
+  reporterOutputFiles,
+} from '../utils/playwright-config';
+import {
+  type AngularJSON,
+  type AngularProject,
+  builderName,
+  findNxProjects,
+  getDefaultProject,
+  getPlaywrightTargets,
+  getProject,
+  readWorkspace,
+} from '../utils/workspace';
+import { resolvePlaywrightVersion } from './playwright-version';
+
+interface NgAddOptions {
+  installBrowsers: boolean;
+  /** Project to add the e2e target to, defaults to the first application */
+  project?: string;
+  /** What to do when the project already has an `e2e` target */
+  existingE2e?: 'keep' | 'replace' | 'add';
+  /** Browsers and emulated devices the tests run on */
+  browsers?: string[];
+  /** Reporters of the generated config */
+  reporters?: string[];
+  /** CI service to generate a workflow for */
+  ci?: 'github' | 'gitlab' | 'azure' | 'none';
+  /** Version of `@playwright/test` to install instead of the latest one */
+  playwrightVersion?: string;
+}
+
+/**
+ * What ng-add changed in the workspace, and what it left as it was because
+ * it was already there. ng-add can be run again on the same workspace.
+ */
+interface NgAddSummary {
+  changed: string[];
+  skipped: string[];
+}
 
-export default function ngAdd(options: { installBrowsers: boolean }): Rule {
+type PackageJSON = {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+};
+
+/**
+ * Outputs of the Playwright target of an Nx project, restored from the Nx
+ * cache.
+ */
+const nxOutputs = [
+  '{projectRoot}/test-results',
+  '{projectRoot}/playwright-report',
+];
+
+/**
+ * Commands installing the package managers missing from the Node.js images
+ * of CI services.
+ */
+const ciSetupCommands: Partial<Record<PackageManager, string>> = {
+  pnpm: 'npm install --global pnpm',
+  bun: 'npm install --global bun',
+};
+
+/**
+ * Workflow file generated for each CI service.
+ */
+const ciWorkflowFiles: Record<string, string> = {
+  github: '.github/workflows/playwright.yml',
+  gitlab: '.gitlab-ci.yml',
+  azure: 'azure-pipelines.yml',
+};
+
+export default function ngAdd(options: NgAddOptions): Rule {
   return (tree: Tree, context: SchematicContext) => {
-    const copyFiles = mergeWith(apply(url('./files'), [move('.')]));
+    const summary: NgAddSummary = { changed: [], skipped: [] };
     const rules = [
-      updateAngular,
-      addNpmScript,
-      gitignore,
-      copyFiles,
-      addPlaywright,
+      updateAngular(options, summary),
+      addNpmScript(options, summary),
+      gitignore(options, summary),
+      copyFiles(options, summary),
+      addCiWorkflow(options, summary),
+      addPlaywright(options, summary),
+      logSummary(summary),
     ];
     if (options.installBrowsers) {
-      context.addTask(new RunSchematicTask('install-browsers', {}));
+      context.addTask(
+        new RunSchematicTask('install-browsers', {
+          project: getProject(tree, options.project)?.name,
+        }),
+      );
     }
     return chain(rules)(tree, context);
   };
 }
 
-function updateAngular(tree: Tree, context: SchematicContext) {
-  if (!tree.exists('angular.json')) {
-    return tree;
+/**
+ * Root folder of the project Playwright is added to, where its config and
+ * tests live.
+ */
+function getProjectRoot(tree: Tree, options: NgAddOptions): string {
+  const root = getProject(tree, options.project)?.project.root ?? '';
+  return root.replace(/\/+$/, '');
+}
+
+/**
+ * URL of the dev server, from the options of the project's `serve` target.
+ */
+function getBaseUrl(tree: Tree, options: NgAddOptions): string {
+  const project = getProject(tree, options.project)?.project;
+  const serveOptions =
+    (project && (project.architect ?? project.targets)?.serve?.options) ?? {};
+  const protocol = serveOptions.ssl ? 'https' : 'http';
+  const host =
+    typeof serveOptions.host === 'string' && serveOptions.host !== '0.0.0.0'
+      ? serveOptions.host
+      : 'localhost';
+  const port = serveOptions.port ?? 4200;
+  return `${protocol}://${host}:${port}`;
+}
+
+/**
+ * `reporter` of the Playwright config, as TypeScript code.
+ */
+function formatReporter(reporters: string[]): string {
+  if (reporters.length === 1 && !reporterOutputFiles[reporters[0]]) {
+    return `'${reporters[0]}'`;
   }
-  context.logger.debug('angular.json');
-
-  const sourceText = tree.readText('angular.json');
-  const json = JSON.parse(sourceText);
-  for (const projectName of Object.keys(json.projects)) {
-    json.projects[projectName].architect.e2e = {
-      builder: 'playwright-ng-schematics:playwright',
-      options: {
-        devServerTarget: `${projectName}:serve`,
-      },
-      configurations: {
-        production: {
-          devServerTarget: `${projectName}:serve:production`,
-        },
-      },
-    };
+  const entries = reporters.map((reporter) =>
+    reporterOutputFiles[reporter]
+      ? `['${reporter}', { outputFile: '${reporterOutputFiles[reporter]}' }]`
+      : `['${reporter}']`,
+  );
+  return `[\n    ${entries.join(',\n    ')},\n  ]`;
+}
+
+/**
+ * Name of the target running Playwright in the project, if any.
+ */
+function getPlaywrightTarget(project: AngularProject): string | undefined {
+  return Object.keys(getPlaywrightTargets(project))[0];
+}
+
+/**
+ * Adds the Playwright target to the project, in `angular.json` or in the
+ * `project.json` of an Nx project.
+ */
+function addE2eTarget(
+  tree: Tree,
+  projectName: string,
+  project: AngularProject,
+  options: NgAddOptions,
+  summary: NgAddSummary,
+  nxProjectFile?: string,
+) {
+  const file = nxProjectFile ?? 'angular.json';
+  const playwrightTarget = getPlaywrightTarget(project);
+  if (playwrightTarget) {
+    summary.skipped.push(
+      `${file}: "${projectName}:${playwrightTarget}" already runs Playwright`,
+    );
+    return;
   }
-  json.cli = json.cli || {};
-  json.cli.schematicCollections = json.cli.schematicCollections || [
-    '@schematics/angular',
-  ];
-  if (!json.cli.schematicCollections.includes('playwright-ng-schematics')) {
-    json.cli.schematicCollections.push('playwright-ng-schematics');
+
+  const targetsKey =
+    project.targets && !project.architect ? 'targets' : 'architect';
+  const existingTarget = project[targetsKey]?.e2e;
+  const existingBuilder = existingTarget?.builder ?? existingTarget?.executor;
+  let targetName = 'e2e';
+  if (existingTarget) {
+    const existingE2e = options.existingE2e ?? 'add';
+    if (existingE2e === 'keep') {
+      summary.skipped.push(
+        `${file}: kept the "${projectName}:e2e" target (${existingBuilder})`,
+      );
+      return;
+    }
+    if (existingE2e === 'add') {
+      targetName = 'playwright-e2e';
+      summary.skipped.push(
+        `${file}: kept the "${projectName}:e2e" target (${existingBuilder})`,
+      );
+    } else {
+      summary.changed.push(
+        `${file}: replaced the "${projectName}:e2e" target (${existingBuilder})`,
+      );
+    }
   }
-  tree.overwrite('angular.json', JSON.stringify(json, null, 2));
 
-  return tree;
+  const target = {
+    options: {
+      // relative to the project root
+      config: 'playwright.config.ts',
+      devServerTarget: `${projectName}:serve`,
+    },
+    configurations: {
+      production: {
+        devServerTarget: `${projectName}:serve:production`,
+      },
+    },
+  };
+  if (nxProjectFile) {
+    const { namedInputs } = readJsonFile<{
+      namedInputs?: Record<string, unknown>;
+    }>(tree, 'nx.json');
+    modifyJsonFile(tree, nxProjectFile, ['targets', targetName], {
+      executor: builderName,
+      ...target,
+      // Nx replays the results of a run when its inputs did not change
+      cache: true,
+      inputs: ['default', getDependenciesInput(namedInputs)],
+      outputs: nxOutputs,
+    });
+  } else {
+    modifyJsonFile(
+      tree,
+      'angular.json',
+      ['projects', projectName, targetsKey, targetName],
+      { builder: builderName, ...target },
+    );
+  }
+  summary.changed.push(
+    `${file}: added the "${projectName}:${targetName}" target`,
+  );
 }
 
-function addNpmScript(tree: Tree, context: SchematicContext) {
-  if (!tree.exists('package.json')) {
-    return tree;
+function addSchematicCollection(
+  tree: Tree,
+  json: AngularJSON,
+  summary: NgAddSummary,
+) {
+  const collections = json.cli?.schematicCollections;
+  if (collections?.includes('playwright-ng-schematics')) {
+    summary.skipped.push(
+      'angular.json: playwright-ng-schematics already in schematicCollections',
+    );
+    return;
   }
-  context.logger.debug('npm script');
+  if (collections) {
+    modifyJsonFile(
+      tree,
+      'angular.json',
+      ['cli', 'schematicCollections', collections.length],
+      'playwright-ng-schematics',
+      { isArrayInsertion: true },
+    );
+  } else {
+    modifyJsonFile(
+      tree,
+      'angular.json',
+      ['cli', 'schematicCollections'],
+      ['@schematics/angular', 'playwright-ng-schematics'],
+    );
+  }
+  summary.changed.push(
+    'angular.json: added playwright-ng-schematics to schematicCollections',
+  );
+}
+
+function updateAngular(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (!tree.exists('angular.json')) {
+      return updateNx(options, summary);
+    }
+    context.logger.debug('angular.json');
 
-  const key = 'e2e';
-  const value = 'ng e2e';
+    const json = readJsonFile<AngularJSON>(tree, 'angular.json');
 
-  const sourceText = tree.readText('package.json');
-  const json = JSON.parse(sourceText);
-  if (!json.scripts[key]) {
-    json.scripts[key] = value;
-  }
-  tree.overwrite('package.json', JSON.stringify(json, null, 2));
+    const projectName = options.project || getDefaultProject(json);
+    const project = projectName ? json.projects[projectName] : undefined;
+    if (options.project && !project) {
+      throw new SchematicsException(
+        `Project "${options.project}" does not exist.`,
+      );
+    }
+    if (project?.projectType === 'library') {
+      throw new SchematicsException(
+        `Project "${projectName}" is a library, Playwright can only be added to applications.`,
+      );
+    }
+    if (projectName && project) {
+      addE2eTarget(tree, projectName, project, options, summary);
+    } else {
+      context.logger.warn('No application found, no e2e target was added.');
+    }
+
+    addSchematicCollection(tree, json, summary);
 
-  return tree;
+    return tree;
+  };
 }
 
-function gitignore(tree: Tree, context: SchematicContext) {
-  if (!tree.exists('.gitignore')) {
+/**
+ * Adds the Playwright target to the `project.json` of an Nx project.
+ */
+function updateNx(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (!tree.exists('nx.json')) {
+      return tree;
+    }
+    context.logger.debug('project.json');
+
+    const projects = findNxProjects(tree);
+    const json = readWorkspace(tree);
+    const projectName =
+      options.project || (json ? getDefaultProject(json) : undefined);
+    const nxProject = projectName ? projects[projectName] : undefined;
+    if (options.project && !nxProject) {
+      throw new SchematicsException(
+        `Project "${options.project}" does not exist.`,
+      );
+    }
+    if (nxProject?.project.projectType === 'library') {
+      throw new SchematicsException(
+        `Project "${projectName}" is a library, Playwright can only be added to applications.`,
+      );
+    }
+    if (projectName && nxProject) {
+      addE2eTarget(
+        tree,
+        projectName,
+        nxProject.project,
+        options,
+        summary,
+        nxProject.file,
+      );
+    } else {
+      context.logger.warn('No application found, no e2e target was added.');
+    }
+
     return tree;
+  };
+}
+
+/**
+ * Command running the Playwright target added to the project.
+ */
+function getE2eCommand(tree: Tree, options: NgAddOptions): string | undefined {
+  if (!tree.exists('angular.json') && !tree.exists('nx.json')) {
+    return 'ng e2e';
   }
-  context.logger.debug('Adjust .gitignore');
-
-  const content = tree.readText('.gitignore');
-  const modifiedContent = `${content}
-# Playwright
-/test-results/
-/playwright-report/
-/playwright/.cache/
-`;
-  tree.overwrite('.gitignore', modifiedContent);
-
-  return tree;
-}
-
-async function getLatestNpmVersion(packageName: string) {
-  try {
-    const response = await fetch(`https://registry.npmjs.org/${packageName}`);
-    const responseObject = await response.json();
-    const version = responseObject['dist-tags'].latest ?? 'latest';
-    return version;
-  } catch (_error) {
-    return 'latest';
+
+  const { name, project } = getProject(tree, options.project) ?? {};
+  const targetName = project && getPlaywrightTarget(project);
+  if (!targetName) {
+    return undefined;
+  }
+  if (!tree.exists('angular.json')) {
+    return `nx run ${name}:${targetName}`;
   }
+  return targetName === 'e2e' ? 'ng e2e' : `ng run ${name}:${targetName}`;
 }
 
-function addPackageToPackageJson(
-  tree: Tree,
-  context: SchematicContext,
-  pkg: string,
-  version: string,
-): Rule {
-  return () => {
+function addNpmScript(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
     if (!tree.exists('package.json')) {
       return tree;
     }
-    context.logger.debug('Adjust package.json');
+    context.logger.debug('npm script');
 
-    const sourceText = tree.readText('package.json');
-    const json = JSON.parse(sourceText);
-    if (!json.devDependencies) {
-      json.devDependencies = {};
+    const key = 'e2e';
+    const value = getE2eCommand(tree, options);
+    if (!value) {
+      return tree;
     }
-    if (!json.devDependencies[pkg]) {
-      json.devDependencies[pkg] = version;
+
+    const json = readJsonFile<PackageJSON>(tree, 'package.json');
+    if (json.scripts?.[key]) {
+      summary.skipped.push(`package.json: "${key}" script already present`);
+      return tree;
     }
-    json.devDependencies = sortObjectByKeys(json.devDependencies);
-    tree.overwrite('package.json', JSON.stringify(json, null, 2));
+    modifyJsonFile(tree, 'package.json', ['scripts', key], value);
+    summary.changed.push(`package.json: added the "${key}" script`);
 
     return tree;
   };
 }
 
-async function addPlaywright(tree: Tree, context: SchematicContext) {
-  context.logger.debug('Updating dependencies...');
-  const version = await getLatestNpmVersion('@playwright/test');
+function gitignore(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (!tree.exists('.gitignore')) {
+      return tree;
+    }
+    context.logger.debug('Adjust .gitignore');
+
+    // Playwright writes its output next to the config
+    const root = getProjectRoot(tree, options);
+    const prefix = root ? `/${root}` : '';
+    const entries = [
+      `${prefix}/test-results/`,
+      `${prefix}/playwright-report/`,
+      `${prefix}/playwright/.cache/`,
+    ];
+    const content = tree.readText('.gitignore');
+    const lines = content.split(/\r?\n/).map((line) => line.trim());
+    const missingEntries = entries.filter((entry) => !lines.includes(entry));
+    if (missingEntries.length === 0) {
+      summary.skipped.push('.gitignore: Playwright entries already present');
+      return tree;
+    }
+
+    const header = lines.includes('# Playwright') ? '' : '\n# Playwright\n';
+    const separator = content.endsWith('\n') || header ? '' : '\n';
+    tree.overwrite(
+      '.gitignore',
+      `${content}${separator}${header}${missingEntries.join('\n')}\n`,
+    );
+    summary.changed.push(
+      `.gitignore: added ${missingEntries.map((entry) => `"${entry}"`).join(', ')}`,
+    );
+
+    return tree;
+  };
+}
+
+/**
+ * Copies `playwright.config.ts` and `e2e/` to the project root, keeping the
+ * files that already exist.
+ */
+function copyFiles(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree) => {
+    const root = getProjectRoot(tree, options);
+    const e2eDepth = `${root}/e2e`.split('/').filter(Boolean).length;
+    return mergeWith(
+      apply(url('./files'), [
+        applyTemplates({
+          relativePathToWorkspaceRoot: Array(e2eDepth).fill('..').join('/'),
+          baseUrl: getBaseUrl(tree, options),
+          browsers: (options.browsers ?? ['chromium', 'firefox', 'webkit']).map(
+            (browser) => browserProjects[browser],
+          ),
+          reporter: formatReporter(options.reporters ?? ['html']),
+        }),
+        move(root || '.'),
+        forEach((entry) => {
+          const path = entry.path.replace(/^\//, '');
+          if (tree.exists(entry.path)) {
+            summary.skipped.push(`${path}: already exists`);
+            return null;
+          }
+          summary.changed.push(`${path}: created`);
+          return entry;
+        }),
+      ]),
+    );
+  };
+}
+
+/**
+ * Files of the workspace being changed, to detect its package manager.
+ */
+function getWorkspaceFiles(tree: Tree): WorkspaceFiles {
+  return {
+    exists: (path) => tree.exists(path),
+    read: (path) => (tree.exists(path) ? tree.readText(path) : undefined),
+  };
+}
+
+/**
+ * Names given to `playwright install` for the selected browsers, such as
+ * `webkit` for `mobile-safari`, or the channel of branded browsers.
+ */
+function getInstallBrowsers(options: NgAddOptions): string[] {
+  const deviceBrowser = loadDeviceBrowsers(process.cwd());
+  const names = (options.browsers ?? ['chromium', 'firefox', 'webkit']).map(
+    (browser) => {
+      const { device, channel } = browserProjects[browser];
+      return channel ?? deviceBrowser(device) ?? 'chromium';
+    },
+  );
+  return [...new Set(names)];
+}
 
-  context.logger.info(`Adding @playwright/test ${version}`);
+/**
+ * Generates a workflow installing the dependencies and browsers, then
+ * running the tests, with the package manager of the workspace.
+ */
+function addCiWorkflow(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (!options.ci || options.ci === 'none') {
+      return tree;
+    }
+    const workflowFile = ciWorkflowFiles[options.ci];
+    if (tree.exists(workflowFile)) {
+      summary.skipped.push(`${workflowFile}: already exists`);
+      return tree;
+    }
+    const e2eCommand = getE2eCommand(tree, options);
+    if (!e2eCommand) {
+      context.logger.warn('No Playwright target was added, skipping CI setup.');
+      return tree;
+    }
+    context.logger.debug(workflowFile);
 
-  context.addTask(new NodePackageInstallTask({ allowScripts: true }));
+    const root = getProjectRoot(tree, options);
+    const files = getWorkspaceFiles(tree);
+    summary.changed.push(`${workflowFile}: created`);
+    return mergeWith(
+      apply(url(`./ci/files/${options.ci}`), [
+        applyTemplates({
+          dot: '.',
+          setupCommand: ciSetupCommands[getPackageManager('/', files)],
+          installCommand: getPackageManagerInstallCommand('/', files),
+          execCommand: getPackageManagerExecCommand('/', files),
+          browsers: getInstallBrowsers(options).join(' '),
+          e2eCommand,
+          reportPath: root
+            ? `${root}/playwright-report/`
+            : 'playwright-report/',
+        }),
+      ]),
+    );
+  };
+}
 
-  return addPackageToPackageJson(tree, context, '@playwright/test', version);
+function addPlaywright(options: NgAddOptions, summary: NgAddSummary): Rule {
+  return async (tree: Tree, context: SchematicContext) => {
+    if (!tree.exists('package.json')) {
+      return tree;
+    }
+    const json = readJsonFile<PackageJSON>(tree, 'package.json');
+    if (
+      json.devDependencies?.['@playwright/test'] ||
+      json.dependencies?.['@playwright/test']
+    ) {
+      summary.skipped.push('package.json: @playwright/test already installed');
+      return tree;
+    }
+
+    context.logger.debug('Updating dependencies...');
+    const version = await resolvePlaywrightVersion(
+      tree,
+      context,
+      options.playwrightVersion,
+    );
+
+    context.logger.info(`Adding @playwright/test ${version}`);
+
+    context.addTask(new NodePackageInstallTask({ allowScripts: true }));
+
+    modifyJsonFile(
+      tree,
+      'package.json',
+      ['devDependencies', '@playwright/test'],
+      version,
+      { sortKeys: true },
+    );
+    summary.changed.push(`package.json: added @playwright/test ${version}`);
+
+    return tree;
+  };
 }
 
-function sortObjectByKeys(
-  obj: Record<string, unknown>,
-): Record<string, unknown> {
-  return Object.keys(obj)
-    .sort()
-    .reduce((result, key) => {
-      return {
-        // biome-ignore lint/performance/noAccumulatingSpread: small object, no perf cost
-        ...result,
-        [key]: obj[key],
-      };
-    }, {});
+function logSummary(summary: NgAddSummary): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    if (summary.changed.length) {
+      context.logger.info('Changed:');
+      for (const change of summary.changed) {
+        context.logger.info(`  - ${change}`);
+      }
+    }
+    if (summary.skipped.length) {
+      context.logger.info('Skipped:');
+      for (const skip of summary.skipped) {
+        context.logger.info(`  - ${skip}`);
+      }
+    }
+    return tree;
+  };
 }
@@ -0,0 +1,147 @@
+import {
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+} from '@angular-devkit/schematics';
+import { readJsonFile } from '../utils/json-file';
+import { fetchPackageMetadata, type PackageMetadata } from '../utils/registry';
+
+/**
+ * Known-good version, installed when the registry cannot be reached. The
+ * builder options are in sync with it, older versions are not supported.
+ */
+export const pinnedPlaywrightVersion = '1.63.0';
+
+/**
+ * Oldest Angular major version supported by the builder, the major version of
+ * the `@angular-devkit/core` it depends on.
+ */
+const minimumAngularMajor = Number(
+  /\d+/.exec(
+    require('../../../package.json').dependencies['@angular-devkit/core'],
+  )?.[0],
+);
+
+type Version = [number, number, number];
+
+/**
+ * Parses a stable `major.minor.patch` version, prereleases are ignored.
+ */
+function parseVersion(version: string): Version | undefined {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  return match ? [+match[1], +match[2], +match[3]] : undefined;
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Checks a version against an `engines` range. Only `>=` and `^` ranges,
+ * possibly joined by `||`, are understood; other ranges are assumed to match.
+ */
+function satisfiesEngine(range: string, version: Version): boolean {
+  return range.split('||').some((alternative) => {
+    const match = /^\s*(>=|\^)\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?\s*$/.exec(
+      alternative,
+    );
+    if (!match) {
+      return true;
+    }
+    const minimum: Version = [+match[2], +(match[3] ?? 0), +(match[4] ?? 0)];
+    return (
+      compareVersions(version, minimum) >= 0 &&
+      (match[1] === '>=' || version[0] === minimum[0])
+    );
+  });
+}
+
+/**
+ * Versions of Playwright 1 from the pinned one on are supported, as long
+ * as they run on the current Node.js.
+ */
+function isSupported(version: string, metadata?: PackageMetadata): boolean {
+  const parsed = parseVersion(version);
+  const pinned = parseVersion(pinnedPlaywrightVersion) as Version;
+  if (!parsed || parsed[0] !== pinned[0]) {
+    return false;
+  }
+  if (compareVersions(parsed, pinned) < 0) {
+    return false;
+  }
+  const nodeRange = metadata?.versions?.[version]?.engines?.node;
+  const nodeVersion = parseVersion(process.versions.node) as Version;
+  return !nodeRange || satisfiesEngine(nodeRange, nodeVersion);
+}
+
+/**
+ * Fails when the workspace uses an Angular version the builder cannot be
+ * loaded with.
+ */
+function checkAngularVersion(tree: Tree) {
+  if (!tree.exists('package.json')) {
+    return;
+  }
+  const json = readJsonFile<{
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  }>(tree, 'package.json');
+  const angularVersion: string | undefined =
+    json.dependencies?.['@angular/core'] ??
+    json.devDependencies?.['@angular/core'];
+  const major = Number(/\d+/.exec(angularVersion ?? '')?.[0]);
+  if (major && major < minimumAngularMajor) {
+    throw new SchematicsException(
+      `Angular ${major} is not supported, Angular ${minimumAngularMajor}+ is required.`,
+    );
+  }
+}
+
+/**
+ * Version of `@playwright/test` to install: the `playwrightVersion` option,
+ * or the newest supported version from the registry of the workspace, or
+ * the pinned version when the registry cannot be reached.
+ */
+export async function resolvePlaywrightVersion(
+  tree: Tree,
+  context: SchematicContext,
+  playwrightVersion?: string,
+): Promise<string> {
+  checkAngularVersion(tree);
+
+  if (playwrightVersion) {
+    if (parseVersion(playwrightVersion) && !isSupported(playwrightVersion)) {
+      context.logger.warn(
+        `@playwright/test ${playwrightVersion} is not supported, use ${pinnedPlaywrightVersion} or later.`,
+      );
+    }
+    return playwrightVersion;
+  }
+
+  let metadata: PackageMetadata;
+  try {
+    metadata = await fetchPackageMetadata(tree, '@playwright/test');
+  } catch (error) {
+    context.logger.warn(
+      `Could not fetch @playwright/test from the registry (${error instanceof Error ? error.message : error}), using ${pinnedPlaywrightVersion}.`,
+    );
+    return pinnedPlaywrightVersion;
+  }
+
+  const latest = metadata['dist-tags']?.latest;
+  const versions = Object.keys(metadata.versions ?? {})
+    .filter((version) => parseVersion(version))
+    .sort((a, b) =>
+      compareVersions(parseVersion(b) as Version, parseVersion(a) as Version),
+    );
+  const version = [...(latest ? [latest] : []), ...versions].find((candidate) =>
+    isSupported(candidate, metadata),
+  );
+  if (!version) {
+    context.logger.warn(
+      `No supported @playwright/test version found in the registry, using ${pinnedPlaywrightVersion}.`,
+    );
+    return pinnedPlaywrightVersion;
+  }
+  return version;
+}
@@ -0,0 +1,167 @@
+import { HostTree } from '@angular-devkit/schematics';
+import {
+  SchematicTestRunner,
+  UnitTestTree,
+} from '@angular-devkit/schematics/testing';
+
+const collectionPath = 'lib/schematics/collection.json';
+
+describe('routes', () => {
+  const runner = new SchematicTestRunner('schematics', collectionPath);
+  let tree: UnitTestTree;
+
+  beforeEach(() => {
+    tree = new UnitTestTree(new HostTree());
+    tree.create(
+      '/angular.json',
+      JSON.stringify({
+        projects: {
+          shop: {
+            projectType: 'application',
+            root: 'projects/shop',
+            sourceRoot: 'projects/shop/src',
+          },
+        },
+      }),
+    );
+    tree.create(
+      '/projects/shop/src/app/app.config.ts',
+      `import { ApplicationConfig } from '@angular/core';
+import { provideRouter } from '@angular/router';
+import { routes } from './app.routes';
+
+export const appConfig: ApplicationConfig = {
+  providers: [provideRouter(routes)],
+};
+`,
+    );
+    tree.create(
+      '/projects/shop/src/app/app.routes.ts',
+      `import { Routes } from '@angular/router';
+import { authGuard } from './auth.guard';
+import { HomeComponent } from './home.component';
+
+export const routes: Routes = [
+  { path: '', component: HomeComponent, title: "Shop's home" },
+  { path: 'products/:id', loadComponent: () => import('./product.component') },
+  {
+    path: 'admin',
+    canActivate: [authGuard],
+    loadChildren: () =>
+      import('./admin/admin.routes').then((m) => m.ADMIN_ROUTES),
+  },
+  { path: 'old', redirectTo: '' },
+  { path: '**', component: HomeComponent },
+];
+`,
+    );
+    tree.create(
+      '/projects/shop/src/app/admin/admin.routes.ts',
+      `import { Routes } from '@angular/router';
+
+export const ADMIN_ROUTES: Routes = [
+  { path: '', loadComponent: () => import('./dashboard.component') },
+  { path: 'users', children: [{ path: '', loadComponent: () => import('./users.component') }] },
+];
+`,
+    );
+  });
+
+  it('should generate a spec for each route', async () => {
+    const result = await runner.runSchematic('routes', {}, tree);
+
+    expect(
+      result.files.filter((file) => file.startsWith('/projects/shop/e2e/')),
+    ).toEqual([
+      '/projects/shop/e2e/routes/home.spec.ts',
+      '/projects/shop/e2e/routes/products-id.spec.ts',
+      '/projects/shop/e2e/routes/admin.spec.ts',
+      '/projects/shop/e2e/routes/admin-users.spec.ts',
+    ]);
+    expect(
+      result.readContent('/projects/shop/e2e/routes/home.spec.ts'),
+    ).toMatchSnapshot();
+  });
+
+  it('should mark routes with params or guards with a TODO', async () => {
+    const result = await runner.runSchematic('routes', {}, tree);
+
+    expect(
+      result.readContent('/projects/shop/e2e/routes/products-id.spec.ts'),
+    ).toContain('// TODO: replace :id in the URL with existing values');
+    expect(
+      result.readContent('/projects/shop/e2e/routes/admin-users.spec.ts'),
+    ).toContain(
+      '// TODO: the route is protected by canActivate, meet its conditions (e.g. log in) first',
+    );
+  });
+
+  it('should only generate the selected routes', async () => {
+    const result = await runner.runSchematic(
+      'routes',
+      { routes: ['admin/users'] },
+      tree,
+    );
+
+    expect(
+      result.files.filter((file) => file.startsWith('/projects/shop/e2e/')),
+    ).toEqual(['/projects/shop/e2e/routes/admin-users.spec.ts']);
+  });
+
+  it('should give routes with the same spec name different files', async () => {
+    tree.overwrite(
+      '/projects/shop/src/app/admin/admin.routes.ts',
+      `import { Routes } from '@angular/router';
+
+export const ADMIN_ROUTES: Routes = [
+  { path: 'users', loadComponent: () => import('./users.component') },
+];
+`,
+    );
+    tree.overwrite(
+      '/projects/shop/src/app/app.routes.ts',
+      `import { Routes } from '@angular/router';
+
+export const routes: Routes = [
+  { path: 'admin-users', loadComponent: () => import('./users.component') },
+  {
+    path: 'admin',
+    loadChildren: () =>
+      import('./admin/admin.routes').then((m) => m.ADMIN_ROUTES),
+  },
+];
+`,
+    );
+
+    const result = await runner.runSchematic('routes', {}, tree);
+
+    expect(
+      result.files.filter((file) => file.startsWith('/projects/shop/e2e/')),
+    ).toEqual([
+      '/projects/shop/e2e/routes/admin-users.spec.ts',
+      '/projects/shop/e2e/routes/admin-users-2.spec.ts',
+    ]);
+    expect(
+      result.readContent('/projects/shop/e2e/routes/admin-users-2.spec.ts'),
+    ).toContain("page.goto('/admin/users')");
+  });
+
+  it('should find RouterModule.forRoot routes', async () => {
+    tree.delete('/projects/shop/src/app/app.config.ts');
+    tree.create(
+      '/projects/shop/src/app/app.module.ts',
+      `import { NgModule } from '@angular/core';
+import { RouterModule } from '@angular/router';
+
+@NgModule({
+  imports: [RouterModule.forRoot([{ path: 'about', component: AboutComponent }])],
+})
+export class AppModule {}
+`,
+    );
+
+    const result = await runner.runSchematic('routes', {}, tree);
+
+    expect(result.files).toContain('/projects/shop/e2e/routes/about.spec.ts');
+  });
+});
@@ -0,0 +1,158 @@
+import { join } from 'node:path/posix';
+import {
+  apply,
+  applyTemplates,
+  chain,
+  mergeWith,
+  move,
+  type Rule,
+  type SchematicContext,
+  SchematicsException,
+  type Tree,
+  url,
+} from '@angular-devkit/schematics';
+import { getTestDir } from '../utils/playwright-config';
+import { getProject, readWorkspace } from '../utils/workspace';
+import { type AppRoute, findAppRoutes } from './router';
+
+interface RoutesOptions {
+  /** Application whose routes are tested */
+  project?: string;
+  /** Paths of the routes to generate a spec for, all routes by default */
+  routes?: string[];
+}
+
+/**
+ * Source and test folders of the application.
+ */
+function getProjectFolders(tree: Tree, options: RoutesOptions) {
+  if (!readWorkspace(tree)) {
+    return { sourceRoot: 'src', testDir: getTestDir(tree) };
+  }
+  const project = getProject(tree, options.project)?.project;
+  if (!project) {
+    throw new SchematicsException('No application found.');
+  }
+  const root = project.root ?? '';
+  return {
+    sourceRoot: project.sourceRoot ?? join(root, 'src'),
+    testDir: getTestDir(tree, project),
+  };
+}
+
+function getTypeScriptFiles(tree: Tree, folder: string): string[] {
+  const files: string[] = [];
+  tree.getDir(folder).visit((path) => {
+    if (path.endsWith('.ts') && !path.endsWith('.spec.ts')) {
+      files.push(path);
+    }
+  });
+  return files;
+}
+
+function toRoutePath(path: string): string {
+  return `/${path.split('/').filter(Boolean).join('/')}`;
+}
+
+/**
+ * Spec file name of a route, `users-id` for `/users/:id`.
+ */
+function getSpecName(route: AppRoute): string {
+  const segments = route.path
+    .split('/')
+    .map((segment) => segment.replace(/^:/, ''))
+    .filter(Boolean);
+  return segments.length ? segments.join('-') : 'home';
+}
+
+/**
+ * Spec file names of the routes, suffixed when two routes have the same one,
+ * like `/a/b` and `/a-b`. They are computed from all the routes so that a
+ * route keeps its name when only some routes are selected.
+ */
+function getSpecNames(routes: AppRoute[]): Map<AppRoute, string> {
+  const names = new Map<AppRoute, string>();
+  const used = new Set<string>();
+  for (const route of routes) {
+    const base = getSpecName(route);
+    let name = base;
+    for (let index = 2; used.has(name); index++) {
+      name = `${base}-${index}`;
+    }
+    used.add(name);
+    names.set(route, name);
+  }
+  return names;
+}
+
+function getTodos(route: AppRoute): string[] {
+  const todos: string[] = [];
+  if (route.params.length) {
+    todos.push(
+      `replace ${route.params.join(', ')} in the URL with existing values`,
+    );
+  }
+  if (route.guards.length) {
+    todos.push(
+      `the route is protected by ${route.guards.join(', ')}, meet its conditions (e.g. log in) first`,
+    );
+  }
+  return todos;
+}
+
+function getTitleMatcher(route: AppRoute): string {
+  if (route.title === undefined) {
+    return '/.+/';
+  }
+  return `'${route.title.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function generateSpec(route: AppRoute, name: string, folder: string): Rule {
+  return mergeWith(
+    apply(url('./files'), [
+      applyTemplates({
+        name,
+        path: route.path,
+        todos: getTodos(route),
+        titleMatcher: getTitleMatcher(route),
+      }),
+      move(folder),
+    ]),
+  );
+}
+
+export default function routes(options: RoutesOptions): Rule {
+  return (tree: Tree, context: SchematicContext) => {
+    const { sourceRoot, testDir } = getProjectFolders(tree, options);
+    const appRoutes = findAppRoutes(tree, getTypeScriptFiles(tree, sourceRoot));
+    if (appRoutes.length === 0) {
+      context.logger.warn(
+        `No provideRouter or RouterModule.forRoot routes found in ${sourceRoot}.`,
+      );
+      return tree;
+    }
+
+    const selectedPaths = options.routes?.length
+      ? options.routes.map(toRoutePath)
+      : undefined;
+    for (const path of selectedPaths ?? []) {
+      if (!appRoutes.some((route) => route.path === path)) {
+        context.logger.warn(`Route ${path} not found.`);
+      }
+    }
+    const folder = join(testDir, 'routes');
+    const rules = [...getSpecNames(appRoutes)]
+      .filter(([route]) => !selectedPaths || selectedPaths.includes(route.path))
+      .filter(([, name]) => {
+        const file = join(folder, `${name}.spec.ts`);
+        if (tree.exists(file)) {
+          context.logger.info(`${file} already exists, skipping.`);
+          return false;
+        }
+        return true;
+      })
+      .map(([route, name]) => generateSpec(route, name, folder));
+
+    return chain(rules);
+  };
+}
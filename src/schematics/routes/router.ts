@@ -0,0 +1,296 @@
+import { dirname, join } from 'node:path/posix';
+import type { Tree } from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+
+/**
+ * A route of the application rendering a component.
+ */
+export interface AppRoute {
+  /** Full path, starting with `/` */
+  path: string;
+  /** `title` of the route, when it is a string */
+  title?: string;
+  /** Guards of the route and its parents, such as `canActivate` */
+  guards: string[];
+  /** Parameters of the path, such as `:id` */
+  params: string[];
+}
+
+const guardProperties = [
+  'canActivate',
+  'canActivateChild',
+  'canMatch',
+  'canLoad',
+];
+
+interface RoutesArray {
+  file: string;
+  array: ts.ArrayLiteralExpression;
+}
+
+function getSourceFile(tree: Tree, file: string): ts.SourceFile {
+  return ts.createSourceFile(
+    file,
+    tree.readText(file),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+}
+
+/**
+ * TypeScript file imported by `moduleSpecifier` from `file`, if it is in the
+ * workspace.
+ */
+function resolveImport(
+  tree: Tree,
+  file: string,
+  moduleSpecifier: string,
+): string | undefined {
+  if (!moduleSpecifier.startsWith('.')) {
+    return undefined;
+  }
+  const base = join(dirname(file), moduleSpecifier);
+  return [`${base}.ts`, join(base, 'index.ts')].find((candidate) =>
+    tree.exists(candidate),
+  );
+}
+
+/**
+ * Expression exported from a file, `default` for `export default`.
+ */
+function findExport(
+  tree: Tree,
+  file: string,
+  name: string,
+): RoutesArray | undefined {
+  const sourceFile = getSourceFile(tree, file);
+  for (const statement of sourceFile.statements) {
+    if (name === 'default' && ts.isExportAssignment(statement)) {
+      return resolveRoutes(tree, file, statement.expression);
+    }
+  }
+  return resolveRoutes(tree, file, ts.factory.createIdentifier(name));
+}
+
+/**
+ * Finds the array literal of routes an expression refers to, following
+ * variables and relative imports.
+ */
+function resolveRoutes(
+  tree: Tree,
+  file: string,
+  expression: ts.Expression,
+): RoutesArray | undefined {
+  if (ts.isArrayLiteralExpression(expression)) {
+    return { file, array: expression };
+  }
+  if (
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isParenthesizedExpression(expression)
+  ) {
+    return resolveRoutes(tree, file, expression.expression);
+  }
+  if (!ts.isIdentifier(expression)) {
+    return undefined;
+  }
+
+  const name = expression.text;
+  const sourceFile = getSourceFile(tree, file);
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const declaration = statement.declarationList.declarations.find(
+        (item) => ts.isIdentifier(item.name) && item.name.text === name,
+      );
+      if (declaration?.initializer) {
+        return resolveRoutes(tree, file, declaration.initializer);
+      }
+    }
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.importClause?.namedBindings &&
+      ts.isNamedImports(statement.importClause.namedBindings)
+    ) {
+      const element = statement.importClause.namedBindings.elements.find(
+        (item) => item.name.text === name,
+      );
+      const importedFile =
+        element && resolveImport(tree, file, statement.moduleSpecifier.text);
+      if (element && importedFile) {
+        return findExport(
+          tree,
+          importedFile,
+          (element.propertyName ?? element.name).text,
+        );
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Routes loaded by `loadChildren: () => import('./admin.routes')`, with an
+ * optional `.then((m) => m.ADMIN_ROUTES)`.
+ */
+function resolveLoadChildren(
+  tree: Tree,
+  file: string,
+  initializer: ts.Expression,
+): RoutesArray | undefined {
+  let moduleSpecifier: string | undefined;
+  let exportName = 'default';
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      node.arguments[0] &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      moduleSpecifier = node.arguments[0].text;
+    }
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.name.text !== 'then'
+    ) {
+      exportName = node.name.text;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(initializer);
+
+  const importedFile =
+    moduleSpecifier && resolveImport(tree, file, moduleSpecifier);
+  return importedFile ? findExport(tree, importedFile, exportName) : undefined;
+}
+
+function getProperty(
+  route: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  const property = route.properties.find(
+    (item): item is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(item) &&
+      (ts.isIdentifier(item.name) || ts.isStringLiteral(item.name)) &&
+      item.name.text === name,
+  );
+  return property?.initializer;
+}
+
+function getString(expression?: ts.Expression): string | undefined {
+  return expression && ts.isStringLiteralLike(expression)
+    ? expression.text
+    : undefined;
+}
+
+function collectRoutes(
+  tree: Tree,
+  { file, array }: RoutesArray,
+  parentPath: string,
+  parentGuards: string[],
+  routes: AppRoute[],
+) {
+  for (const element of array.elements) {
+    if (ts.isSpreadElement(element)) {
+      const spread = resolveRoutes(tree, file, element.expression);
+      if (spread) {
+        collectRoutes(tree, spread, parentPath, parentGuards, routes);
+      }
+      continue;
+    }
+    if (!ts.isObjectLiteralExpression(element)) {
+      continue;
+    }
+
+    const path = getString(getProperty(element, 'path')) ?? '';
+    if (path === '**' || getProperty(element, 'redirectTo')) {
+      continue;
+    }
+    const fullPath = `/${[...parentPath.split('/'), ...path.split('/')]
+      .filter(Boolean)
+      .join('/')}`;
+    const guards = [
+      ...parentGuards,
+      ...guardProperties.filter((guard) => getProperty(element, guard)),
+    ];
+
+    if (
+      getProperty(element, 'component') ||
+      getProperty(element, 'loadComponent')
+    ) {
+      routes.push({
+        path: fullPath,
+        title: getString(getProperty(element, 'title')),
+        guards: [...new Set(guards)],
+        params: fullPath
+          .split('/')
+          .filter((segment) => segment.startsWith(':')),
+      });
+    }
+
+    const children = getProperty(element, 'children');
+    const childRoutes = children && resolveRoutes(tree, file, children);
+    if (childRoutes) {
+      collectRoutes(tree, childRoutes, fullPath, guards, routes);
+    }
+    const loadChildren = getProperty(element, 'loadChildren');
+    const lazyRoutes =
+      loadChildren && resolveLoadChildren(tree, file, loadChildren);
+    if (lazyRoutes) {
+      collectRoutes(tree, lazyRoutes, fullPath, guards, routes);
+    }
+  }
+}
+
+/**
+ * Arguments of `provideRouter(...)` and `RouterModule.forRoot(...)` calls.
+ */
+function findRouterCalls(sourceFile: ts.SourceFile): ts.Expression[] {
+  const routes: ts.Expression[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.arguments[0]) {
+      const callee = node.expression;
+      const isProvideRouter =
+        ts.isIdentifier(callee) && callee.text === 'provideRouter';
+      const isForRoot =
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === 'RouterModule' &&
+        callee.name.text === 'forRoot';
+      if (isProvideRouter || isForRoot) {
+        routes.push(node.arguments[0]);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return routes;
+}
+
+/**
+ * Routes of the application, from the `provideRouter` or
+ * `RouterModule.forRoot` calls in the given files.
+ */
+export function findAppRoutes(tree: Tree, files: string[]): AppRoute[] {
+  const routes: AppRoute[] = [];
+  for (const file of files) {
+    const content = tree.readText(file);
+    if (
+      !content.includes('provideRouter') &&
+      !content.includes('RouterModule')
+    ) {
+      continue;
+    }
+    for (const expression of findRouterCalls(getSourceFile(tree, file))) {
+      const array = resolveRoutes(tree, file, expression);
+      if (array) {
+        collectRoutes(tree, array, '', [], routes);
+      }
+    }
+  }
+  return routes.filter(
+    (route, index) =>
+      routes.findIndex((other) => other.path === route.path) === index,
+  );
+}
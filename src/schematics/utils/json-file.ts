@@ -0,0 +1,53 @@
+import type { Tree } from '@angular-devkit/schematics';
+import {
+  applyEdits,
+  type FormattingOptions,
+  type JSONPath,
+  modify,
+  parse,
+} from 'jsonc-parser';
+
+/**
+ * Formatting of a JSON file, so that edits keep its indentation and line
+ * endings.
+ */
+function getFormattingOptions(content: string): FormattingOptions {
+  const indentation = /^([ \t]+)\S/m.exec(content)?.[1] ?? '  ';
+  const tabs = indentation.includes('\t');
+  return {
+    insertSpaces: !tabs,
+    tabSize: tabs ? 1 : indentation.length,
+    eol: content.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+export function readJsonFile<T>(tree: Tree, path: string): T {
+  return parse(tree.readText(path));
+}
+
+/**
+ * Sets a value in a JSON file, leaving the rest of the file as it is. A new
+ * key is inserted in alphabetical order with `sortKeys`, for instance in
+ * `devDependencies`.
+ */
+export function modifyJsonFile(
+  tree: Tree,
+  path: string,
+  jsonPath: JSONPath,
+  value: unknown,
+  { sortKeys = false, isArrayInsertion = false } = {},
+) {
+  const content = tree.readText(path);
+  const key = jsonPath[jsonPath.length - 1];
+  const edits = modify(content, jsonPath, value, {
+    formattingOptions: getFormattingOptions(content),
+    isArrayInsertion,
+    getInsertionIndex: sortKeys
+      ? (properties) => {
+          const index = properties.findIndex((property) => property > key);
+          return index === -1 ? properties.length : index;
+        }
+      : undefined,
+  });
+  tree.overwrite(path, applyEdits(content, edits));
+}
@@ -0,0 +1,257 @@
+import { dirname, join } from 'node:path/posix';
+import type { Tree } from '@angular-devkit/schematics';
+import * as ts from 'typescript';
+import { getProperty } from '../../utils/config-object';
+import { type AngularProject, getPlaywrightTargets } from './workspace';
+
+/**
+ * Default config files, in the order Playwright looks for them.
+ */
+const defaultConfigFiles = [
+  'playwright.config.ts',
+  'playwright.config.js',
+  'playwright.config.mts',
+  'playwright.config.mjs',
+  'playwright.config.cts',
+  'playwright.config.cjs',
+];
+
+export interface BrowserProject {
+  name: string;
+  device: string;
+  channel?: string;
+}
+
+/**
+ * Projects of the browsers and emulated devices the tests can run on.
+ */
+export const browserProjects: Record<string, BrowserProject> = {
+  chromium: { name: 'chromium', device: 'Desktop Chrome' },
+  firefox: { name: 'firefox', device: 'Desktop Firefox' },
+  webkit: { name: 'webkit', device: 'Desktop Safari' },
+  'mobile-chrome': { name: 'Mobile Chrome', device: 'Pixel 5' },
+  'mobile-safari': { name: 'Mobile Safari', device: 'iPhone 12' },
+  msedge: { name: 'Microsoft Edge', device: 'Desktop Edge', channel: 'msedge' },
+  chrome: {
+    name: 'Google Chrome',
+    device: 'Desktop Chrome',
+    channel: 'chrome',
+  },
+};
+
+/**
+ * Reporters writing to stdout by default get a file in the output folder.
+ */
+export const reporterOutputFiles: Record<string, string> = {
+  json: 'test-results/results.json',
+  junit: 'test-results/junit.xml',
+};
+
+/**
+ * Playwright config of a project, resolved like the builder does: the
+ * `config` option of its Playwright target, or a default config file, from
+ * the project root first, then from the workspace root.
+ */
+export function findPlaywrightConfig(
+  tree: Tree,
+  project?: AngularProject,
+): string | undefined {
+  const root = project?.root ?? '';
+  const [target] = Object.values(project ? getPlaywrightTargets(project) : {});
+  const config = target?.options?.config;
+  const candidates = typeof config === 'string' ? [config] : defaultConfigFiles;
+  return candidates
+    .flatMap((file) => [join(root, file), file])
+    .find((file) => tree.exists(file));
+}
+
+/**
+ * Value of a string property of the config, such as `testDir`.
+ */
+export function readConfigString(
+  tree: Tree,
+  configFile: string,
+  name: string,
+): string | undefined {
+  const sourceFile = parseConfig(tree, configFile);
+  let value: string | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      value === undefined &&
+      ts.isPropertyAssignment(node) &&
+      (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name)) &&
+      node.name.text === name &&
+      ts.isStringLiteralLike(node.initializer)
+    ) {
+      value = node.initializer.text;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return value;
+}
+
+/**
+ * Folder holding the tests of a project: the `testDir` of its Playwright
+ * config, relative to the config, or `e2e` in the project root.
+ */
+export function getTestDir(tree: Tree, project?: AngularProject): string {
+  const configFile = findPlaywrightConfig(tree, project);
+  if (!configFile) {
+    return join(project?.root ?? '', 'e2e');
+  }
+  // Playwright defaults to the folder of the config
+  const testDir = readConfigString(tree, configFile, 'testDir') ?? '.';
+  return join(dirname(configFile), testDir);
+}
+
+/**
+ * Replacement of the text between `pos` and `end` of a file.
+ */
+export interface TextEdit {
+  pos: number;
+  end: number;
+  text: string;
+}
+
+export function parseConfig(tree: Tree, configFile: string): ts.SourceFile {
+  return ts.createSourceFile(
+    configFile,
+    tree.readText(configFile),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+}
+
+function getIndentation(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+  return sourceFile.text.slice(lineStart, start).match(/^\s*/)?.[0] ?? '';
+}
+
+/**
+ * Indents the lines of an element spanning several lines after the first.
+ */
+function indent(element: string, indentation: string): string {
+  return element.replace(/\n/g, `\n${indentation}`);
+}
+
+/**
+ * Adds an element to an array literal, or a property to an object literal, on
+ * its own line when the literal spans several lines.
+ */
+export function insertElement(
+  sourceFile: ts.SourceFile,
+  array: ts.ArrayLiteralExpression | ts.ObjectLiteralExpression,
+  element: string,
+  position: 'start' | 'end' = 'end',
+): TextEdit {
+  const elements = ts.isArrayLiteralExpression(array)
+    ? array.elements
+    : array.properties;
+  const multiline = array.getText(sourceFile).includes('\n');
+  if (elements.length === 0) {
+    const pos = array.getStart(sourceFile) + 1;
+    const indentation = getIndentation(sourceFile, array);
+    return {
+      pos,
+      end: array.end - 1,
+      text: multiline
+        ? `\n${indentation}  ${indent(element, `${indentation}  `)},\n${indentation}`
+        : ` ${element} `,
+    };
+  }
+  if (position === 'start') {
+    const first = elements[0];
+    const pos = first.getStart(sourceFile);
+    const indentation = getIndentation(sourceFile, first);
+    return {
+      pos,
+      end: pos,
+      text: multiline
+        ? `${indent(element, indentation)},\n${indentation}`
+        : `${element}, `,
+    };
+  }
+  const last = elements[elements.length - 1];
+  if (multiline) {
+    const comma = elements.hasTrailingComma ? '' : ',';
+    const pos = elements.hasTrailingComma ? elements.end : last.end;
+    const indentation = getIndentation(sourceFile, last);
+    return {
+      pos,
+      end: pos,
+      text: `${comma}\n${indentation}${indent(element, indentation)},`,
+    };
+  }
+  return elements.hasTrailingComma
+    ? { pos: elements.end, end: elements.end, text: ` ${element},` }
+    : { pos: last.end, end: last.end, text: `, ${element}` };
+}
+
+/**
+ * Sets the value of a property of an object literal, adding the property when
+ * it does not exist.
+ */
+export function setProperty(
+  sourceFile: ts.SourceFile,
+  object: ts.ObjectLiteralExpression,
+  name: string,
+  value: string,
+): TextEdit {
+  const property = getProperty(object, name);
+  return property
+    ? {
+        pos: property.initializer.getStart(sourceFile),
+        end: property.initializer.end,
+        text: value,
+      }
+    : insertElement(sourceFile, object, `${name}: ${value}`);
+}
+
+/**
+ * Removes an element of an array literal, or a property of an object
+ * literal, with its comma and the comments before it.
+ */
+export function removeElement(
+  sourceFile: ts.SourceFile,
+  elements: ts.NodeArray<ts.Node>,
+  element: ts.Node,
+): TextEdit {
+  const text = sourceFile.text;
+  const index = elements.indexOf(element);
+  const comma = text.slice(element.end).match(/^\s*,/);
+  const next = elements[index + 1];
+  if (comma && index === 0 && next) {
+    // the next element takes the place of the first one
+    const whitespace = (node: ts.Node) =>
+      node.pos + (text.slice(node.pos).match(/^\s*/)?.[0].length ?? 0);
+    return { pos: whitespace(element), end: whitespace(next), text: '' };
+  }
+  if (comma) {
+    return { pos: element.pos, end: element.end + comma[0].length, text: '' };
+  }
+  // the last element, without a trailing comma
+  const previous = elements[index - 1];
+  return {
+    pos: previous ? previous.end : element.pos,
+    end: element.end,
+    text: '',
+  };
+}
+
+/**
+ * Applies edits that do not overlap, from the end so that their positions
+ * stay valid. Insertions at the same position keep their order.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  return edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.pos - a.edit.pos || b.index - a.index)
+    .map(({ edit }) => edit)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.pos) + edit.text + text.slice(edit.end),
+      content,
+    );
+}
@@ -0,0 +1,134 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { Tree } from '@angular-devkit/schematics';
+
+const defaultRegistry = 'https://registry.npmjs.org/';
+
+/**
+ * Time to wait for the registry before giving up, in milliseconds.
+ */
+const registryTimeout = 10_000;
+
+/**
+ * Abbreviated metadata of a package, as served by npm registries.
+ */
+export interface PackageMetadata {
+  'dist-tags'?: Record<string, string>;
+  versions?: Record<string, { engines?: Record<string, string> }>;
+}
+
+/**
+ * Parses an `.npmrc` file, expanding `${VAR}` environment variables.
+ */
+function parseNpmrc(content: string): Record<string, string> {
+  const config: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith(';')) {
+      continue;
+    }
+    const separator = trimmed.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const key = trimmed.slice(0, separator).trim();
+    const value = trimmed
+      .slice(separator + 1)
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2')
+      .replace(/\$\{([^}]+)\}/g, (_, name) => process.env[name] ?? '');
+    config[key] = value;
+  }
+  return config;
+}
+
+/**
+ * npm configuration of the workspace: the user `.npmrc`, overridden by the
+ * workspace `.npmrc`, overridden by `npm_config_*` environment variables.
+ */
+function readNpmConfig(tree: Tree): Record<string, string> {
+  const userNpmrc = join(homedir(), '.npmrc');
+  const env = Object.fromEntries(
+    Object.entries(process.env)
+      .filter(([name]) => /^npm_config_/i.test(name))
+      .map(([name, value]) => [
+        name.replace(/^npm_config_/i, '').toLowerCase(),
+        value ?? '',
+      ]),
+  );
+  return {
+    ...(existsSync(userNpmrc)
+      ? parseNpmrc(readFileSync(userNpmrc, 'utf8'))
+      : {}),
+    ...(tree.exists('.npmrc') ? parseNpmrc(tree.readText('.npmrc')) : {}),
+    ...env,
+  };
+}
+
+/**
+ * Registry of a package, honoring scoped registries such as
+ * `@playwright:registry`.
+ */
+function getRegistry(config: Record<string, string>, packageName: string) {
+  const scope = packageName.startsWith('@') ? packageName.split('/')[0] : '';
+  const registry =
+    (scope && config[`${scope}:registry`]) ||
+    config.registry ||
+    defaultRegistry;
+  return registry.endsWith('/') ? registry : `${registry}/`;
+}
+
+/**
+ * Authorization header for the registry, from the `//host/path/:_authToken`
+ * or `//host/path/:_auth` entry matching it best.
+ */
+function getAuthorization(
+  config: Record<string, string>,
+  registry: string,
+): string | undefined {
+  const registryPath = registry.replace(/^https?:/, '');
+  const prefix = Object.keys(config)
+    .filter((key) => key.startsWith('//'))
+    .map((key) => key.slice(0, key.lastIndexOf(':')))
+    .filter((path) => registryPath.startsWith(path))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) {
+    return undefined;
+  }
+  if (config[`${prefix}:_authToken`]) {
+    return `Bearer ${config[`${prefix}:_authToken`]}`;
+  }
+  if (config[`${prefix}:_auth`]) {
+    return `Basic ${config[`${prefix}:_auth`]}`;
+  }
+  return undefined;
+}
+
+/**
+ * Fetches the metadata of a package from the registry configured for the
+ * workspace. Rejects when the registry fails or is too slow to answer.
+ */
+export async function fetchPackageMetadata(
+  tree: Tree,
+  packageName: string,
+): Promise<PackageMetadata> {
+  const config = readNpmConfig(tree);
+  const registry = getRegistry(config, packageName);
+  const authorization = getAuthorization(config, registry);
+
+  const response = await fetch(
+    `${registry}${packageName.replace('/', '%2f')}`,
+    {
+      headers: {
+        accept: 'application/vnd.npm.install-v1+json',
+        ...(authorization ? { authorization } : {}),
+      },
+      signal: AbortSignal.timeout(registryTimeout),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(`${registry} answered with status ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,162 @@
+import { basename, dirname, join } from 'node:path/posix';
+import type { JsonObject } from '@angular-devkit/core';
+import {
+  type DirEntry,
+  SchematicsException,
+  type Tree,
+} from '@angular-devkit/schematics';
+import { readJsonFile } from './json-file';
+
+export const builderName = 'playwright-ng-schematics:playwright';
+
+export type AngularTarget = {
+  builder: string;
+  /** Builder of a target of an Nx project */
+  executor?: string;
+  options?: JsonObject;
+  configurations?: Record<string, JsonObject>;
+};
+
+export type AngularProject = {
+  root?: string;
+  sourceRoot?: string;
+  projectType?: string;
+  architect?: Record<string, AngularTarget>;
+  targets?: Record<string, AngularTarget>;
+};
+
+export type AngularJSON = {
+  defaultProject?: string;
+  projects: Record<string, AngularProject>;
+  cli?: { schematicCollections?: string[] };
+};
+
+/**
+ * Targets of the project running Playwright, by target name.
+ */
+export function getPlaywrightTargets(
+  project: AngularProject,
+): Record<string, AngularTarget> {
+  const targets = project.architect ?? project.targets ?? {};
+  return Object.fromEntries(
+    Object.entries(targets).filter(
+      ([, target]) =>
+        target.builder === builderName || target.executor === builderName,
+    ),
+  );
+}
+
+/**
+ * The `defaultProject` if it is an application, or the first application.
+ */
+export function getDefaultProject(json: AngularJSON): string | undefined {
+  const applications = Object.keys(json.projects).filter(
+    (name) => json.projects[name].projectType !== 'library',
+  );
+  if (json.defaultProject && applications.includes(json.defaultProject)) {
+    return json.defaultProject;
+  }
+  return applications[0];
+}
+
+/**
+ * Folders never holding projects, skipped when looking for `project.json`.
+ */
+const ignoredFolders = [
+  'node_modules',
+  'dist',
+  'tmp',
+  '.git',
+  '.nx',
+  '.angular',
+];
+
+/**
+ * Projects of an Nx workspace, by project name, with their `project.json`.
+ */
+export function findNxProjects(
+  tree: Tree,
+): Record<string, { file: string; project: AngularProject }> {
+  const projects: Record<string, { file: string; project: AngularProject }> =
+    {};
+  const visit = (dir: DirEntry) => {
+    if (dir.subfiles.includes('project.json' as never)) {
+      const file = join(dir.path, 'project.json').replace(/^\//, '');
+      const json = readJsonFile<AngularProject & { name?: string }>(tree, file);
+      const root = dirname(file);
+      projects[json.name ?? basename(root)] = {
+        file,
+        project: { ...json, root: json.root ?? root },
+      };
+    }
+    for (const subdir of dir.subdirs) {
+      if (!ignoredFolders.includes(subdir)) {
+        visit(dir.dir(subdir));
+      }
+    }
+  };
+  visit(tree.getDir('/'));
+  return projects;
+}
+
+/**
+ * Projects of the workspace: `angular.json`, or the `project.json` files of
+ * an Nx workspace. `undefined` outside of a workspace.
+ */
+export function readWorkspace(tree: Tree): AngularJSON | undefined {
+  if (tree.exists('angular.json')) {
+    return readJsonFile<AngularJSON>(tree, 'angular.json');
+  }
+  if (!tree.exists('nx.json')) {
+    return undefined;
+  }
+  const { defaultProject } = readJsonFile<AngularJSON>(tree, 'nx.json');
+  const projects = Object.entries(findNxProjects(tree)).map(
+    ([name, { project }]) => [name, project],
+  );
+  return { defaultProject, projects: Object.fromEntries(projects) };
+}
+
+/**
+ * File holding the targets of a project, and their path in it: `angular.json`,
+ * or the `project.json` of an Nx project.
+ */
+export function getTargetsLocation(
+  tree: Tree,
+  projectName: string,
+  project: AngularProject,
+): { file: string; path: string[]; nx: boolean } {
+  const nxProject = tree.exists('angular.json')
+    ? undefined
+    : findNxProjects(tree)[projectName];
+  if (nxProject) {
+    return { file: nxProject.file, path: ['targets'], nx: true };
+  }
+  const targetsKey =
+    project.targets && !project.architect ? 'targets' : 'architect';
+  return {
+    file: 'angular.json',
+    path: ['projects', projectName, targetsKey],
+    nx: false,
+  };
+}
+
+/**
+ * Project given by the `project` option, or the default application of the
+ * workspace. `undefined` outside of a workspace.
+ */
+export function getProject(
+  tree: Tree,
+  projectName?: string,
+): { name: string; project: AngularProject } | undefined {
+  const json = readWorkspace(tree);
+  if (!json) {
+    return undefined;
+  }
+  const name = projectName || getDefaultProject(json);
+  const project = name ? json.projects[name] : undefined;
+  if (projectName && !project) {
+    throw new SchematicsException(`Project "${projectName}" does not exist.`);
+  }
+  return name && project ? { name, project } : undefined;
+}
@@ -0,0 +1,232 @@
+import * as ts from 'typescript';
+import { findConfigObject, getProperty } from './config-object';
+
+/**
+ * Browser of a Playwright project, as set by `use`.
+ */
+interface ProjectBrowser {
+  browserName?: string;
+  channel?: string;
+}
+
+/**
+ * An executable of `playwright install`, such as `chromium` or `ffmpeg`.
+ */
+export interface BrowserExecutable {
+  name: string;
+  /** Folder of the executable, `<system>` for branded browsers */
+  location: string;
+}
+
+/**
+ * Channels of branded browsers, installed with `playwright install <channel>`.
+ */
+export const brandedChannels = [
+  'chrome',
+  'chrome-beta',
+  'chrome-dev',
+  'chrome-canary',
+  'msedge',
+  'msedge-beta',
+  'msedge-dev',
+  'msedge-canary',
+];
+
+/**
+ * Browser of a Playwright device, from the `devices` of the installed
+ * `@playwright/test`, or guessed from its name.
+ */
+export function loadDeviceBrowsers(
+  root: string,
+): (device: string) => string | undefined {
+  let devices: Record<string, { defaultBrowserType?: string }> = {};
+  try {
+    devices = require(
+      require.resolve('@playwright/test', { paths: [root] }),
+    ).devices;
+  } catch {
+    // not installed yet
+  }
+  return (device) =>
+    devices[device]?.defaultBrowserType ??
+    (/firefox/i.test(device)
+      ? 'firefox'
+      : /safari|iphone|ipad/i.test(device)
+        ? 'webkit'
+        : /chrome|edge|pixel|galaxy/i.test(device)
+          ? 'chromium'
+          : undefined);
+}
+
+function getString(expression?: ts.Expression): string | undefined {
+  return expression && ts.isStringLiteralLike(expression)
+    ? expression.text
+    : undefined;
+}
+
+/**
+ * Name of the device in `devices['Pixel 5']`.
+ */
+function getDevice(expression: ts.Expression): string | undefined {
+  return ts.isElementAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === 'devices'
+    ? getString(expression.argumentExpression)
+    : undefined;
+}
+
+/**
+ * Browser set by a `use` object, `null` when it cannot be read.
+ */
+function getUseBrowser(
+  use: ts.Expression | undefined,
+  deviceBrowser: (device: string) => string | undefined,
+): ProjectBrowser | null {
+  if (!use) {
+    return {};
+  }
+  const device = getDevice(use);
+  if (device) {
+    return { browserName: deviceBrowser(device) };
+  }
+  if (!ts.isObjectLiteralExpression(use)) {
+    return null;
+  }
+  const browser: ProjectBrowser = {};
+  for (const property of use.properties) {
+    if (ts.isSpreadAssignment(property)) {
+      const spreadDevice = getDevice(property.expression);
+      if (!spreadDevice) {
+        return null;
+      }
+      browser.browserName = deviceBrowser(spreadDevice);
+    }
+  }
+  const browserName = getProperty(use, 'browserName')?.initializer;
+  const channel = getProperty(use, 'channel')?.initializer;
+  if (
+    (browserName && !getString(browserName)) ||
+    (channel && !getString(channel))
+  ) {
+    return null;
+  }
+  return {
+    browserName: getString(browserName) ?? browser.browserName,
+    channel: getString(channel),
+  };
+}
+
+/**
+ * Whether a project name matches a `--project` filter, which supports `*`
+ * and ignores the case like Playwright.
+ */
+function matchesFilter(name: string, filter: string): boolean {
+  const source = filter
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+/**
+ * Browsers to install for the projects of a Playwright config, such as
+ * `chromium` or `msedge`, including the projects they depend on. Only the
+ * projects matching `filters` are considered, when given. `undefined` when
+ * the config is not in a shape that can be read.
+ */
+export function getConfigBrowsers(
+  sourceFile: ts.SourceFile,
+  deviceBrowser: (device: string) => string | undefined,
+  filters: string[] = [],
+  withDependencies = true,
+): string[] | undefined {
+  const config = findConfigObject(sourceFile);
+  if (!config) {
+    return undefined;
+  }
+  const defaults = getUseBrowser(
+    getProperty(config, 'use')?.initializer,
+    deviceBrowser,
+  );
+  const projects = getProperty(config, 'projects')?.initializer;
+  if (!defaults || (projects && !ts.isArrayLiteralExpression(projects))) {
+    return undefined;
+  }
+
+  const toInstallName = ({ browserName, channel }: ProjectBrowser) =>
+    channel && brandedChannels.includes(channel)
+      ? channel
+      : (browserName ?? 'chromium');
+  if (!projects) {
+    return [toInstallName(defaults)];
+  }
+
+  const entries = projects.elements.map((project) => {
+    if (!ts.isObjectLiteralExpression(project)) {
+      return undefined;
+    }
+    const browser = getUseBrowser(
+      getProperty(project, 'use')?.initializer,
+      deviceBrowser,
+    );
+    const dependencies = getProperty(project, 'dependencies')?.initializer;
+    return browser
+      ? {
+          name: getString(getProperty(project, 'name')?.initializer) ?? '',
+          browser: toInstallName({
+            browserName: browser.browserName ?? defaults.browserName,
+            channel: browser.channel ?? defaults.channel,
+          }),
+          dependencies:
+            dependencies && ts.isArrayLiteralExpression(dependencies)
+              ? dependencies.elements.map(getString).filter(Boolean)
+              : [],
+        }
+      : undefined;
+  });
+  if (entries.some((entry) => !entry)) {
+    return undefined;
+  }
+
+  const selected = new Set(
+    entries.filter(
+      (entry) =>
+        !filters.length ||
+        filters.some((filter) => matchesFilter(entry?.name ?? '', filter)),
+    ),
+  );
+  // projects run the projects they depend on first
+  for (const entry of withDependencies ? selected : []) {
+    for (const dependency of entry?.dependencies ?? []) {
+      const project = entries.find((item) => item?.name === dependency);
+      if (project) {
+        selected.add(project);
+      }
+    }
+  }
+  return [...new Set([...selected].map((entry) => entry?.browser ?? ''))];
+}
+
+/**
+ * Executables listed by `playwright install --dry-run`.
+ *
+ * @example
+ * Chrome for Testing 153.0.8010.12 (playwright chromium v1243)
+ *   Install location:    /home/user/.cache/ms-playwright/chromium-1243
+ */
+export function parseDryRun(output: string): BrowserExecutable[] {
+  const executables: BrowserExecutable[] = [];
+  let name: string | undefined;
+  for (const line of output.split(/\r?\n/)) {
+    const header = /\(playwright (\S+) v/.exec(line);
+    if (header) {
+      name = header[1];
+    }
+    const location = /^\s+Install location:\s+(.+)$/.exec(line);
+    if (name && location) {
+      executables.push({ name, location: location[1].trim() });
+      name = undefined;
+    }
+  }
+  return executables;
+}
@@ -0,0 +1,44 @@
+import * as ts from 'typescript';
+
+/**
+ * Object literal given to `defineConfig(...)`, or exported by default.
+ */
+export function findConfigObject(
+  sourceFile: ts.SourceFile,
+): ts.ObjectLiteralExpression | undefined {
+  let config: ts.ObjectLiteralExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      !config &&
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'defineConfig' &&
+      node.arguments[0] &&
+      ts.isObjectLiteralExpression(node.arguments[0])
+    ) {
+      config = node.arguments[0];
+    }
+    if (
+      !config &&
+      ts.isExportAssignment(node) &&
+      ts.isObjectLiteralExpression(node.expression)
+    ) {
+      config = node.expression;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return config;
+}
+
+export function getProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): ts.PropertyAssignment | undefined {
+  return object.properties.find(
+    (item): item is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(item) &&
+      (ts.isIdentifier(item.name) || ts.isStringLiteral(item.name)) &&
+      item.name.text === name,
+  );
+}
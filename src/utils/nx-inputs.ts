@@ -0,0 +1,10 @@
+/**
+ * Input of a cached Nx target for the projects it depends on: their
+ * `production` files when nx.json names them, as in the workspaces created by
+ * Nx, or all their files.
+ */
+export function getDependenciesInput(
+  namedInputs: Record<string, unknown> = {},
+): string {
+  return namedInputs.production ? '^production' : '^default';
+}
@@ -0,0 +1,97 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  getPackageManager,
+  getPackageManagerExecCommand,
+  getPlaywrightCommand,
+} from './package-manager';
+
+describe('package manager', () => {
+  const userAgent = process.env.npm_config_user_agent;
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'workspace-'));
+    delete process.env.npm_config_user_agent;
+  });
+
+  afterEach(() => {
+    if (userAgent === undefined) {
+      delete process.env.npm_config_user_agent;
+    } else {
+      process.env.npm_config_user_agent = userAgent;
+    }
+  });
+
+  it('should read cli.packageManager of angular.json first', () => {
+    writeFileSync(
+      join(root, 'angular.json'),
+      JSON.stringify({ cli: { packageManager: 'pnpm' } }),
+    );
+    writeFileSync(join(root, 'yarn.lock'), '');
+
+    expect(getPackageManager(root)).toBe('pnpm');
+  });
+
+  it('should read the packageManager field of package.json', () => {
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ packageManager: 'yarn@4.5.0' }),
+    );
+    writeFileSync(join(root, 'package-lock.json'), '');
+
+    expect(getPackageManager(root)).toBe('yarn');
+  });
+
+  it('should find the lockfile of a parent workspace', () => {
+    const app = join(root, 'apps', 'shop');
+    mkdirSync(app, { recursive: true });
+    writeFileSync(join(root, 'bun.lock'), '');
+
+    expect(getPackageManager(app)).toBe('bun');
+    expect(getPackageManagerExecCommand(app)).toBe('bunx');
+  });
+
+  it('should fall back to the package manager running the process', () => {
+    expect(getPackageManager(root)).toBe('npm');
+
+    process.env.npm_config_user_agent = 'pnpm/9.1.0 npm/? node/v22.0.0';
+    expect(getPackageManagerExecCommand(root)).toBe('pnpm exec');
+  });
+
+  it('should run the Playwright CLI with Node.js', () => {
+    expect(getPlaywrightCommand(process.cwd())).toEqual({
+      command: process.execPath,
+      args: [require.resolve('@playwright/test/cli')],
+      shell: false,
+    });
+  });
+
+  it('should use the package manager when Playwright is not installed', () => {
+    writeFileSync(join(root, 'pnpm-lock.yaml'), '');
+
+    expect(getPlaywrightCommand(root)).toEqual({
+      command: 'pnpm exec playwright',
+      args: [],
+      shell: true,
+    });
+  });
+
+  it("should load the Plug'n'Play API of Yarn Berry", () => {
+    writeFileSync(
+      join(root, '.pnp.cjs'),
+      "exports.resolveRequest = (request) => '/zip/' + request + '.js';\n",
+    );
+
+    expect(getPlaywrightCommand(root)).toEqual({
+      command: process.execPath,
+      args: [
+        '--require',
+        join(root, '.pnp.cjs'),
+        '/zip/@playwright/test/cli.js',
+      ],
+      shell: false,
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+/**
+ * Command running a binary of the installed packages.
+ */
+export interface PlaywrightCommand {
+  command: string;
+  /** Arguments before the Playwright command, such as `test` */
+  args: string[];
+  /** Package manager commands need a shell, e.g. for `npx.cmd` on Windows */
+  shell: boolean;
+}
+
+/**
+ * Files of a workspace, on disk or in a schematic tree.
+ */
+export interface WorkspaceFiles {
+  exists(path: string): boolean;
+  read(path: string): string | undefined;
+}
+
+const fileSystem: WorkspaceFiles = {
+  exists: existsSync,
+  read: (path) => {
+    try {
+      return readFileSync(path, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  },
+};
+
+const packageManagers: PackageManager[] = ['npm', 'yarn', 'pnpm', 'bun'];
+
+/**
+ * Lockfiles of each package manager, the first match wins.
+ */
+const lockfiles: [string, PackageManager][] = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+const execCommands: Record<PackageManager, string> = {
+  npm: 'npx',
+  yarn: 'yarn',
+  pnpm: 'pnpm exec',
+  bun: 'bunx',
+};
+
+/**
+ * Commands installing the dependencies as locked, for CI. Yarn Berry still
+ * accepts `--frozen-lockfile` as `--immutable`.
+ */
+const installCommands: Record<PackageManager, string> = {
+  npm: 'npm ci',
+  yarn: 'yarn install --frozen-lockfile',
+  pnpm: 'pnpm install --frozen-lockfile',
+  bun: 'bun install --frozen-lockfile',
+};
+
+function toPackageManager(name: unknown): PackageManager | undefined {
+  return packageManagers.find(
+    (packageManager) =>
+      typeof name === 'string' &&
+      (name === packageManager || name.startsWith(`${packageManager}@`)),
+  );
+}
+
+function readJson(
+  file: string,
+  files: WorkspaceFiles,
+): Record<string, unknown> | undefined {
+  try {
+    return JSON.parse(files.read(file) ?? '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Folders from `root` up to the file system root, as the package manager of
+ * a monorepo is set in its top folder.
+ */
+function ancestors(root: string): string[] {
+  const folders = [resolve(root)];
+  while (dirname(folders[folders.length - 1]) !== folders[folders.length - 1]) {
+    folders.push(dirname(folders[folders.length - 1]));
+  }
+  return folders;
+}
+
+/**
+ * Package manager of a workspace: `cli.packageManager` of angular.json, the
+ * `packageManager` field of package.json, then lockfiles, looked up from the
+ * workspace root to its ancestors. Falls back to the package manager running
+ * the process, then to npm.
+ */
+export function getPackageManager(
+  root: string,
+  files = fileSystem,
+): PackageManager {
+  const angularJson = readJson(join(root, 'angular.json'), files);
+  const cli = angularJson?.cli as { packageManager?: string } | undefined;
+  const configured = toPackageManager(cli?.packageManager);
+  if (configured) {
+    return configured;
+  }
+
+  for (const folder of ancestors(root)) {
+    const packageJson = readJson(join(folder, 'package.json'), files);
+    const declared = toPackageManager(packageJson?.packageManager);
+    if (declared) {
+      return declared;
+    }
+    const lockfile = lockfiles.find(([file]) =>
+      files.exists(join(folder, file)),
+    );
+    if (lockfile) {
+      return lockfile[1];
+    }
+  }
+
+  const userAgent = process.env.npm_config_user_agent ?? '';
+  return toPackageManager(userAgent.split('/')[0]) ?? 'npm';
+}
+
+/**
+ * Command running a binary of the workspace, such as `pnpm exec`.
+ */
+export function getPackageManagerExecCommand(
+  root: string,
+  files = fileSystem,
+): string {
+  return execCommands[getPackageManager(root, files)];
+}
+
+/**
+ * Command installing the locked dependencies of the workspace, such as
+ * `npm ci`.
+ */
+export function getPackageManagerInstallCommand(
+  root: string,
+  files = fileSystem,
+): string {
+  return installCommands[getPackageManager(root, files)];
+}
+
+/**
+ * Loader of a Yarn Plug'n'Play install, in which packages are not in
+ * node_modules.
+ */
+function findPnpFile(root: string): string | undefined {
+  return ancestors(root)
+    .map((folder) => join(folder, '.pnp.cjs'))
+    .find((file) => existsSync(file));
+}
+
+/**
+ * Command running the Playwright CLI of the workspace. The CLI of the
+ * installed `@playwright/test` is run with Node.js directly, without a shell
+ * or a package manager, falling back to the exec command of the package
+ * manager when it cannot be resolved.
+ */
+export function getPlaywrightCommand(root: string): PlaywrightCommand {
+  try {
+    const pnpFile = findPnpFile(root);
+    if (pnpFile) {
+      // The PnP API resolves packages, and patches Node.js to load them
+      const pnp = require(pnpFile);
+      const cli: string | null = pnp.resolveRequest(
+        '@playwright/test/cli',
+        `${resolve(root)}/`,
+      );
+      if (!cli) {
+        throw new Error('@playwright/test is not installed.');
+      }
+      return {
+        command: process.execPath,
+        args: ['--require', pnpFile, cli],
+        shell: false,
+      };
+    }
+    const cli = require.resolve('@playwright/test/cli', { paths: [root] });
+    return { command: process.execPath, args: [cli], shell: false };
+  } catch {
+    return {
+      command: `${getPackageManagerExecCommand(root)} playwright`,
+      args: [],
+      shell: true,
+    };
+  }
+}